@@ -0,0 +1,50 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin, ViteDevServer } from "vite";
+
+// Mirrors src/server/api.ts, which is loaded through Vite so it shares the app's engine and aliases
+interface ApiModule {
+  handleApiRequest: (request: { method: string; path: string; body: unknown }) => { status: number; body: unknown };
+}
+
+const API_MODULE = "/src/server/api.ts";
+
+const readJson = async (request: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+};
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+  response.statusCode = status;
+  response.setHeader("Content-Type", "application/json");
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * Serves /api/* from the dev server so the app runs its LCA service locally and
+ * offline. Edits to the engine are picked up on the next request.
+ */
+export const apiMiddleware = (): Plugin => ({
+  name: "lca-api",
+  configureServer(server: ViteDevServer) {
+    server.middlewares.use("/api", async (request, response) => {
+      let body: unknown;
+      try {
+        body = await readJson(request);
+      } catch {
+        send(response, 400, { error: "The request body is not valid JSON" });
+        return;
+      }
+      try {
+        const api = (await server.ssrLoadModule(API_MODULE)) as ApiModule;
+        const path = `/api${(request.url ?? "/").split("?")[0]}`.replace(/\/$/, "");
+        const result = api.handleApiRequest({ method: request.method ?? "GET", path, body });
+        send(response, result.status, result.body);
+      } catch (error) {
+        server.ssrFixStacktrace(error as Error);
+        send(response, 500, { error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  },
+});
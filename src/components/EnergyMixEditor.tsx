@@ -0,0 +1,121 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { energySourceIds, energySources, getMixTotal } from "@/lib/lca/energy";
+import { getGridIntensity, getGridRegion, getGridRegionLabel, gridRegions } from "@/lib/lca/grids";
+import type { EnergyMix, EnergySourceId } from "@/lib/lca/types";
+
+interface EnergyMixEditorProps {
+  mix: EnergyMix;
+  gridRegion?: string;
+  factorDatabase?: string;
+  onChange: (mix: EnergyMix) => void;
+  onGridRegionChange: (region: string) => void;
+  error?: string;
+}
+
+export const EnergyMixEditor = ({
+  mix,
+  gridRegion,
+  factorDatabase,
+  onChange,
+  onGridRegionChange,
+  error,
+}: EnergyMixEditorProps) => {
+  const total = getMixTotal(mix);
+  const isBalanced = Math.abs(total - 100) < 0.5;
+
+  const updateShare = (source: EnergySourceId, share: number) => {
+    onChange({ ...mix, [source]: Math.max(0, Math.min(100, share)) });
+  };
+
+  // Scales every share by the same factor so the mix adds up to 100%
+  const normalise = () => {
+    if (total <= 0) return;
+    onChange(
+      Object.fromEntries(energySourceIds.map((id) => [id, Math.round(((mix[id] ?? 0) / total) * 1000) / 10])),
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Energy Mix</Label>
+        <span className={`text-xs ${isBalanced ? "text-muted-foreground" : "text-destructive"}`}>
+          Total {Math.round(total * 10) / 10}%
+        </span>
+      </div>
+
+      {/* Stacked bar of the mix */}
+      <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+        {energySourceIds.map((id) =>
+          (mix[id] ?? 0) > 0 ? (
+            <div
+              key={id}
+              className={energySources[id].color}
+              style={{ width: `${((mix[id] ?? 0) / Math.max(total, 100)) * 100}%` }}
+              title={`${energySources[id].label} ${mix[id]}%`}
+            />
+          ) : null,
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {energySourceIds.map((id) => (
+          <div key={id} className="grid grid-cols-[7rem_1fr_4.5rem] items-center gap-3">
+            <div className="flex items-center gap-2 text-sm">
+              <div className={`w-2 h-2 rounded-full ${energySources[id].color}`} />
+              {energySources[id].label}
+            </div>
+            <Slider
+              value={[mix[id] ?? 0]}
+              onValueChange={([value]) => updateShare(id, value)}
+              max={100}
+              step={1}
+            />
+            <div className="flex items-center gap-1">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={mix[id] ?? 0}
+                onChange={(event) => updateShare(id, Number(event.target.value))}
+                className="h-7 px-2"
+              />
+              <span className="text-xs text-muted-foreground">%</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {(mix.grid ?? 0) > 0 && (
+        <Select value={getGridRegion(gridRegion).id} onValueChange={onGridRegionChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {gridRegions.map((region) => (
+              <SelectItem key={region.id} value={region.id}>
+                <div className={`flex items-center gap-2 ${region.parent ? "pl-4" : ""}`}>
+                  {region.parent ? getGridRegionLabel(region) : region.name}
+                  <span className="text-xs text-muted-foreground">{getGridIntensity(region.id, factorDatabase)} g/kWh</span>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {!isBalanced && (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-destructive text-xs">{error ?? "Shares must add up to 100%"}</span>
+          <Button variant="outline" size="sm" onClick={normalise} disabled={total <= 0}>
+            Normalise
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { convertFactorValue, getEngineUnit, getUnreadFactorWarning } from "@/lib/lca/factor-import";
+import { emissionFactorSchema, factorCategories, factorCategoryLabels, formatFactorField } from "@/lib/lca/factor-library";
+import { pedigreeIndicators, UNSCORED_PEDIGREE } from "@/lib/lca/pedigree";
+import type { EmissionFactor, FactorAuditAction, FactorCategory, PedigreeScore } from "@/lib/lca/types";
+
+// Imports are recorded by the importer, not entered by hand
+type EditorAction = Exclude<FactorAuditAction, "import">;
+
+export interface FactorEdit {
+  action: EditorAction;
+  factor?: EmissionFactor; // the factor to edit or clone
+}
+
+interface FactorEditorDialogProps {
+  edit?: FactorEdit; // closed when unset
+  existingIds: Set<string>;
+  author: string;
+  onClose: () => void;
+  onSave: (factor: EmissionFactor, change: { action: FactorAuditAction; author: string; reason: string; previous?: EmissionFactor }) => void;
+}
+
+type FactorForm = Record<Exclude<keyof EmissionFactor, "category" | "pedigree">, string> & {
+  category: FactorCategory;
+  pedigree: PedigreeScore;
+};
+
+const titles: Record<EditorAction, string> = {
+  add: "Add Factor",
+  clone: "Clone Factor",
+  edit: "Edit Factor",
+};
+
+const textFields: { key: Exclude<keyof FactorForm, "id" | "category" | "pedigree">; label: string; type?: string }[] = [
+  { key: "label", label: "Name" },
+  { key: "value", label: "Value", type: "number" },
+  { key: "unit", label: "Unit" },
+  { key: "source", label: "Source" },
+  { key: "year", label: "Reference year", type: "number" },
+  { key: "geography", label: "Geography" },
+  { key: "licence", label: "Licence" },
+];
+
+const toForm = ({ action, factor }: FactorEdit): FactorForm => {
+  if (!factor) {
+    return {
+      id: "",
+      category: "metal",
+      label: "",
+      value: "",
+      unit: "",
+      source: "",
+      year: String(new Date().getFullYear()),
+      geography: "GLO",
+      licence: "",
+      pedigree: UNSCORED_PEDIGREE,
+    };
+  }
+  return {
+    ...factor,
+    id: action === "clone" ? `${factor.id}-copy` : factor.id,
+    label: action === "clone" ? `${factor.label} (copy)` : factor.label,
+    value: String(factor.value),
+    year: String(factor.year),
+    pedigree: factor.pedigree ?? UNSCORED_PEDIGREE,
+  };
+};
+
+export const FactorEditorDialog = ({ edit, existingIds, author, onClose, onSave }: FactorEditorDialogProps) => {
+  const [form, setForm] = useState<FactorForm>();
+  const [authorName, setAuthorName] = useState(author);
+  const [reason, setReason] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!edit) return;
+    setForm(toForm(edit));
+    setAuthorName(author);
+    setReason("");
+    setErrors({});
+  }, [edit, author]);
+
+  if (!edit || !form) return null;
+
+  // Values entered in another unit are converted to the one the engine reads, as on import
+  const engineUnit = getEngineUnit(form.id.trim(), edit.action === "edit" ? edit.factor : undefined);
+  const unreadWarning = form.id.trim() ? getUnreadFactorWarning(form.id.trim()) : undefined;
+
+  const update = <K extends keyof FactorForm>(key: K, value: FactorForm[K]) => {
+    setForm({ ...form, [key]: value });
+    if (errors[key]) setErrors({ ...errors, [key]: "" });
+  };
+
+  const handleSave = () => {
+    const newErrors: Record<string, string> = {};
+    const unit = form.unit.trim();
+    const entered = form.value.trim() === "" ? NaN : Number(form.value);
+    const value = convertFactorValue(entered, unit, engineUnit);
+    if (value === undefined) {
+      newErrors.unit = `${unit} cannot be converted to ${engineUnit}, the unit ${form.id.trim()} is read in`;
+    }
+    const parsed = emissionFactorSchema.safeParse({
+      ...form,
+      value: value ?? entered,
+      unit: value === undefined ? unit : (engineUnit ?? unit),
+      year: form.year.trim() === "" ? NaN : Number(form.year),
+    });
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        newErrors[String(issue.path[0])] ??= issue.message;
+      });
+    }
+    if (edit.action !== "edit" && existingIds.has(form.id.trim())) {
+      newErrors.id = "A factor with this id already exists";
+    }
+    if (!authorName.trim()) newErrors.author = "Say who is making the change";
+    if (!reason.trim()) newErrors.reason = "Record why the factor is changing";
+
+    const factor = parsed.success ? (parsed.data as EmissionFactor) : undefined;
+    if (
+      factor &&
+      edit.action === "edit" &&
+      edit.factor &&
+      (Object.keys(factor) as (keyof EmissionFactor)[]).every(
+        (key) => formatFactorField(factor, key) === formatFactorField(edit.factor, key),
+      )
+    ) {
+      newErrors.value = "Nothing has changed";
+    }
+
+    setErrors(newErrors);
+    if (!factor || Object.keys(newErrors).length > 0) return;
+    onSave(factor, { action: edit.action, author: authorName, reason, previous: edit.factor });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{titles[edit.action]}</DialogTitle>
+          <DialogDescription>
+            Saved factors are used by new calculations straight away and every change is kept in the audit log.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="factor-id">Id</Label>
+            <Input
+              id="factor-id"
+              value={form.id}
+              disabled={edit.action === "edit"}
+              onChange={(event) => update("id", event.target.value)}
+            />
+            {errors.id ? (
+              <span className="text-destructive text-xs">{errors.id}</span>
+            ) : unreadWarning ? (
+              <span className="text-warning text-xs">{unreadWarning}</span>
+            ) : (
+              <span className="text-xs text-muted-foreground">
+                The engine reads ids such as aluminum.primary.co2, energy.coal, grid.CN,
+                transport.truck.diesel.co2 and characterization.acidification.so2
+              </span>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label>Category</Label>
+            <Select value={form.category} onValueChange={(value) => update("category", value as FactorCategory)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {factorCategories.map((category) => (
+                  <SelectItem key={category} value={category}>
+                    {factorCategoryLabels[category]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {textFields.map(({ key, label, type }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`factor-${key}`}>{label}</Label>
+              <Input
+                id={`factor-${key}`}
+                type={type}
+                value={form[key]}
+                onChange={(event) => update(key, event.target.value)}
+              />
+              {errors[key] ? (
+                <span className="text-destructive text-xs">{errors[key]}</span>
+              ) : (
+                key === "unit" &&
+                engineUnit && (
+                  <span className="text-xs text-muted-foreground">
+                    Read by the engine in {engineUnit}; values in other units are converted when saved
+                  </span>
+                )
+              )}
+            </div>
+          ))}
+          <div className="space-y-1 md:col-span-2">
+            <Label>Pedigree (1 best, 5 unknown)</Label>
+            <div className="grid grid-cols-5 gap-2">
+              {pedigreeIndicators.map((indicator, index) => (
+                <div key={indicator} className="space-y-1">
+                  <span className="text-xs text-muted-foreground">{indicator}</span>
+                  <Select
+                    value={String(form.pedigree[index])}
+                    onValueChange={(value) =>
+                      update("pedigree", form.pedigree.map((score, i) => (i === index ? Number(value) : score)) as PedigreeScore)
+                    }
+                  >
+                    <SelectTrigger aria-label={indicator}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[1, 2, 3, 4, 5].map((score) => (
+                        <SelectItem key={score} value={String(score)}>
+                          {score}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <span className="text-xs text-muted-foreground">Widens this factor's Monte Carlo distribution when pedigree widening is on</span>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="factor-author">Changed by</Label>
+            <Input id="factor-author" value={authorName} onChange={(event) => setAuthorName(event.target.value)} />
+            {errors.author && <span className="text-destructive text-xs">{errors.author}</span>}
+          </div>
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="factor-reason">Reason for the change</Label>
+            <Textarea id="factor-reason" value={reason} onChange={(event) => setReason(event.target.value)} />
+            {errors.reason && <span className="text-destructive text-xs">{errors.reason}</span>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save Factor</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
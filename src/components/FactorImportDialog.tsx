@@ -0,0 +1,363 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  guessColumnMapping,
+  importFields,
+  previewFactorImport,
+  type FactorColumnMapping,
+  type FactorImportDefaults,
+  type FactorImportOptions,
+  type FactorImportReport,
+  type ImportRow,
+  type ImportRowStatus,
+} from "@/lib/lca/factor-import";
+import { readSpreadsheet, type SpreadsheetTable } from "@/lib/spreadsheet";
+import type { EmissionFactor } from "@/lib/lca/types";
+import { FileSpreadsheet } from "lucide-react";
+
+// Mounted while open so every import starts from the file step
+interface FactorImportDialogProps {
+  factors: EmissionFactor[]; // the factors calculations use today
+  author: string;
+  onClose: () => void;
+  onImport: (rows: ImportRow[], options: FactorImportOptions) => FactorImportReport;
+}
+
+type ImportStep = "file" | "map" | "review" | "done";
+
+const NOT_IN_FILE = "none";
+const PREVIEW_ROWS = 5;
+
+const statusLabels: Record<ImportRowStatus, string> = {
+  new: "New",
+  conflict: "Conflict",
+  unchanged: "Unchanged",
+  invalid: "Invalid",
+};
+
+const statusClasses: Record<ImportRowStatus, string> = {
+  new: "text-circular border-circular",
+  conflict: "text-warning border-warning",
+  unchanged: "text-muted-foreground",
+  invalid: "text-destructive border-destructive",
+};
+
+const defaultPlaceholders: Partial<Record<keyof EmissionFactor, string>> = {
+  unit: "The unit the engine reads",
+  label: "The factor id",
+  category: "From the id",
+};
+
+const describeRow = ({ status, errors, differences, existing, factor, converted }: ImportRow) => {
+  if (status === "invalid") return errors.join("; ");
+  const notes = differences.map((field) => `${field}: ${existing[field]} → ${factor[field]}`);
+  if (converted) notes.unshift(`converted from ${converted}`);
+  return notes.join(" · ");
+};
+
+export const FactorImportDialog = ({ factors, author, onClose, onImport }: FactorImportDialogProps) => {
+  const [step, setStep] = useState<ImportStep>("file");
+  const [fileName, setFileName] = useState("");
+  const [table, setTable] = useState<SpreadsheetTable>();
+  const [readError, setReadError] = useState("");
+  const [mapping, setMapping] = useState<FactorColumnMapping>({});
+  const [defaults, setDefaults] = useState<FactorImportDefaults>({});
+  const [overwrite, setOverwrite] = useState(false);
+  const [authorName, setAuthorName] = useState(author);
+  const [reason, setReason] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [report, setReport] = useState<FactorImportReport>();
+
+  const rows = useMemo(
+    () => (table && step !== "file" ? previewFactorImport(table, mapping, defaults, factors) : []),
+    [table, mapping, defaults, factors, step],
+  );
+  const counts = rows.reduce(
+    (total, { status }) => ({ ...total, [status]: total[status] + 1 }),
+    { new: 0, conflict: 0, unchanged: 0, invalid: 0 } as Record<ImportRowStatus, number>,
+  );
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setReadError("");
+    try {
+      const read = await readSpreadsheet(file);
+      if (read.rows.length === 0) throw new Error("The file has a header row but no factors");
+      setFileName(file.name);
+      setTable(read);
+      setMapping(guessColumnMapping(read.headers));
+      setDefaults({ source: file.name, year: String(new Date().getFullYear()), geography: "GLO" });
+      setStep("map");
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : "The file could not be read");
+    }
+  };
+
+  const handleImport = () => {
+    const newErrors: Record<string, string> = {};
+    if (!authorName.trim()) newErrors.author = "Say who is importing the factors";
+    if (!reason.trim()) newErrors.reason = "Record why the factors are being imported";
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+    setReport(onImport(rows, { fileName, overwrite, author: authorName, reason }));
+    setStep("done");
+  };
+
+  const importable = counts.new + (overwrite ? counts.conflict : 0);
+  const mappedFields = importFields.filter(({ field }) => mapping[field] !== undefined);
+
+  return (
+    <Dialog open onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Factors</DialogTitle>
+          <DialogDescription>
+            {step === "file" && "Read factors from a .csv or .xlsx file. The first row must hold the column names."}
+            {step === "map" && `Match the columns of ${fileName} to factor fields.`}
+            {step === "review" && "Check the rows before they are added to the library."}
+            {step === "done" && `${fileName} has been imported.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file" className="flex flex-col items-center gap-2 rounded-md border border-dashed p-8 cursor-pointer">
+              <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Choose a spreadsheet</span>
+            </Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              className="hidden"
+              onChange={(event) => handleFile(event.target.files?.[0])}
+            />
+            {readError && <span className="text-destructive text-xs">{readError}</span>}
+          </div>
+        )}
+
+        {step === "map" && table && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-[8rem_1fr_1fr] gap-x-3 gap-y-2 items-center">
+              <span className="text-xs text-muted-foreground">Field</span>
+              <span className="text-xs text-muted-foreground">Column</span>
+              <span className="text-xs text-muted-foreground">Default when missing</span>
+              {importFields.map(({ field, label, required }) => (
+                <div key={field} className="contents">
+                  <Label>
+                    {label}
+                    {required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? NOT_IN_FILE : String(mapping[field])}
+                    onValueChange={(value) =>
+                      setMapping({ ...mapping, [field]: value === NOT_IN_FILE ? undefined : Number(value) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IN_FILE}>Not in file</SelectItem>
+                      {table.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {required ? (
+                    <span className="text-xs text-muted-foreground">Required</span>
+                  ) : (
+                    <Input
+                      value={defaults[field] ?? ""}
+                      placeholder={defaultPlaceholders[field]}
+                      onChange={(event) => setDefaults({ ...defaults, [field]: event.target.value })}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Fields left out of the file keep the existing factor's value, and new factors use the default.
+            </p>
+
+            <div className="overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    {mappedFields.map(({ field, label }) => (
+                      <TableHead key={field}>{label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.rows.slice(0, PREVIEW_ROWS).map(({ number, cells }) => (
+                    <TableRow key={number}>
+                      <TableCell className="text-muted-foreground">{number}</TableCell>
+                      {mappedFields.map(({ field }) => (
+                        <TableCell key={field} className="whitespace-nowrap">
+                          {cells[mapping[field]]}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Showing {Math.min(PREVIEW_ROWS, table.rows.length)} of {table.rows.length.toLocaleString()} rows
+            </div>
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(statusLabels) as ImportRowStatus[]).map((status) => (
+                <Badge key={status} variant="outline" className={statusClasses[status]}>
+                  {counts[status]} {statusLabels[status].toLowerCase()}
+                </Badge>
+              ))}
+            </div>
+
+            <div className="max-h-[40vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Factor</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows
+                    .filter(({ status }) => status !== "unchanged")
+                    .map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                        <TableCell className="font-mono text-xs">{row.id || "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={statusClasses[row.status]}>
+                            {statusLabels[row.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums whitespace-nowrap">
+                          {row.factor && `${row.factor.value.toLocaleString()} ${row.factor.unit}`}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {row.warnings.map((warning) => (
+                            <div key={warning} className="text-warning">
+                              {warning}
+                            </div>
+                          ))}
+                          {describeRow(row)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex items-center gap-2 md:col-span-2">
+                <Switch
+                  id="import-overwrite"
+                  checked={overwrite}
+                  disabled={counts.conflict === 0}
+                  onCheckedChange={setOverwrite}
+                />
+                <Label htmlFor="import-overwrite" className="font-normal">
+                  Replace the {counts.conflict} existing factor{counts.conflict === 1 ? "" : "s"} that conflict with the file
+                </Label>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="import-author">Imported by</Label>
+                <Input id="import-author" value={authorName} onChange={(event) => setAuthorName(event.target.value)} />
+                {errors.author && <span className="text-destructive text-xs">{errors.author}</span>}
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <Label htmlFor="import-reason">Reason for the import</Label>
+                <Textarea id="import-reason" value={reason} onChange={(event) => setReason(event.target.value)} />
+                {errors.reason && <span className="text-destructive text-xs">{errors.reason}</span>}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && report && (
+          <div className="space-y-3 text-sm">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline" className={statusClasses.new}>
+                {report.added.length} added
+              </Badge>
+              <Badge variant="outline" className={statusClasses.conflict}>
+                {report.updated.length} replaced
+              </Badge>
+              <Badge variant="outline">{report.unchanged} unchanged</Badge>
+              <Badge variant="outline" className={statusClasses.invalid}>
+                {report.invalid} skipped as invalid
+              </Badge>
+            </div>
+            {report.kept.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-medium">
+                  {report.kept.length} conflicting factor{report.kept.length === 1 ? " was" : "s were"} left as they were
+                </div>
+                <div className="font-mono text-xs text-muted-foreground">{report.kept.join(", ")}</div>
+              </div>
+            )}
+            {report.updated.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-medium">Replaced from the file</div>
+                <div className="font-mono text-xs text-muted-foreground">{report.updated.join(", ")}</div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("file")}>
+                Back
+              </Button>
+              <Button
+                disabled={mapping.id === undefined || mapping.value === undefined}
+                onClick={() => setStep("review")}
+              >
+                Review Rows
+              </Button>
+            </>
+          )}
+          {step === "review" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button disabled={importable === 0} onClick={handleImport}>
+                Import {importable} Factor{importable === 1 ? "" : "s"}
+              </Button>
+            </>
+          )}
+          {(step === "file" || step === "done") && (
+            <Button variant="outline" onClick={onClose}>
+              {step === "done" ? "Close" : "Cancel"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
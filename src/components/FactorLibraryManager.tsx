@@ -0,0 +1,269 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { useFactorLibrary } from "@/hooks/use-factor-library";
+import { factorDatabases, LATEST_FACTOR_DATABASE } from "@/lib/lca/factor-database";
+import { factorCategories, factorCategoryLabels, mergeLibraryFactors } from "@/lib/lca/factor-library";
+import type { EmissionFactor, FactorAuditEntry, FactorCategory } from "@/lib/lca/types";
+import { FactorEditorDialog, type FactorEdit } from "./FactorEditorDialog";
+import { FactorImportDialog } from "./FactorImportDialog";
+import { ArrowLeft, Copy, History, Library, Pencil, Plus, Search, Upload } from "lucide-react";
+
+const actionLabels: Record<FactorAuditEntry["action"], string> = {
+  add: "Added",
+  clone: "Cloned",
+  edit: "Edited",
+  import: "Imported",
+};
+
+const formatChange = ({ field, from, to }: FactorAuditEntry["changes"][number]) =>
+  from === undefined ? `${field} = ${to}` : `${field}: ${from} → ${to}`;
+
+export const FactorLibraryManager = () => {
+  const { library, author, setAuthor, save, importFactors } = useFactorLibrary();
+  const [search, setSearch] = useState("");
+  const [category, setCategory] = useState<FactorCategory | "all">("all");
+  const [localOnly, setLocalOnly] = useState(false);
+  const [edit, setEdit] = useState<FactorEdit>();
+  const [importing, setImporting] = useState(false);
+
+  // The working set: the latest release with the library on top
+  const factors = useMemo(() => mergeLibraryFactors(factorDatabases[0].factors, library.factors), [library]);
+  const bundledIds = useMemo(() => new Set(factorDatabases[0].factors.map(({ id }) => id)), []);
+  const localIds = useMemo(() => new Set(library.factors.map(({ id }) => id)), [library]);
+  const existingIds = useMemo(() => new Set(factors.map(({ id }) => id)), [factors]);
+
+  const query = search.trim().toLowerCase();
+  const visible = factors.filter(
+    (factor) =>
+      (category === "all" || factor.category === category) &&
+      (!localOnly || localIds.has(factor.id)) &&
+      (!query || [factor.id, factor.label, factor.source, factor.geography].some((text) => text.toLowerCase().includes(query))),
+  );
+
+  const getStatus = (factor: EmissionFactor) =>
+    !localIds.has(factor.id) ? LATEST_FACTOR_DATABASE : bundledIds.has(factor.id) ? "Edited" : "Added";
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <header className="bg-card/90 backdrop-blur-sm border-b shadow-card">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-primary rounded-lg">
+              <Library className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Factor Library</h1>
+              <p className="text-sm text-muted-foreground">
+                Emission and characterization factors on top of release {LATEST_FACTOR_DATABASE}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" asChild className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-6 py-8 space-y-6">
+        <Card className="shadow-card">
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <CardTitle>Factors</CardTitle>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setImporting(true)} className="gap-2">
+                  <Upload className="h-4 w-4" />
+                  Import
+                </Button>
+                <Button onClick={() => setEdit({ action: "add" })} className="gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Factor
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_14rem_auto] gap-3 items-center">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  placeholder="Search id, name, source or geography"
+                  className="pl-8"
+                />
+              </div>
+              <Select value={category} onValueChange={(value) => setCategory(value as FactorCategory | "all")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  {factorCategories.map((id) => (
+                    <SelectItem key={id} value={id}>
+                      {factorCategoryLabels[id]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <Switch id="local-only" checked={localOnly} onCheckedChange={setLocalOnly} />
+                <Label htmlFor="local-only" className="font-normal whitespace-nowrap">
+                  Local changes only
+                </Label>
+              </div>
+            </div>
+
+            <div className="text-xs text-muted-foreground">
+              {visible.length.toLocaleString()} of {factors.length.toLocaleString()} factors
+            </div>
+
+            <div className="max-h-[60vh] overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Factor</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead>Unit</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Year</TableHead>
+                    <TableHead>Geography</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-20" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((factor) => (
+                    <TableRow key={factor.id}>
+                      <TableCell>
+                        <div className="font-medium">{factor.label}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{factor.id}</div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{factorCategoryLabels[factor.category]}</TableCell>
+                      <TableCell className="text-right tabular-nums">{factor.value.toLocaleString()}</TableCell>
+                      <TableCell className="whitespace-nowrap">{factor.unit}</TableCell>
+                      <TableCell className="max-w-64">
+                        <div className="truncate" title={`${factor.source}\n${factor.licence}`}>
+                          {factor.source}
+                        </div>
+                      </TableCell>
+                      <TableCell>{factor.year}</TableCell>
+                      <TableCell>{factor.geography}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={localIds.has(factor.id) ? "text-circular border-circular" : undefined}
+                        >
+                          {getStatus(factor)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Edit"
+                            onClick={() => setEdit({ action: "edit", factor })}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Clone"
+                            onClick={() => setEdit({ action: "clone", factor })}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5 text-primary" />
+              Audit Log
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {library.audit.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No factors have been changed locally yet.</div>
+            ) : (
+              <ol className="space-y-3">
+                {[...library.audit].reverse().map((entry) => (
+                  <li key={entry.id} className="border-l-2 border-primary/40 pl-3 text-sm space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{actionLabels[entry.action]}</Badge>
+                      <span className="font-mono text-xs">{entry.factorId}</span>
+                      <span className="text-xs text-muted-foreground">
+                        by {entry.author} · {new Date(entry.timestamp).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">{entry.changes.map(formatChange).join(" · ")}</div>
+                    <div className="text-xs italic">“{entry.reason}”</div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <FactorEditorDialog
+        edit={edit}
+        existingIds={existingIds}
+        author={author}
+        onClose={() => setEdit(undefined)}
+        onSave={(factor, change) => {
+          save(factor, change);
+          setAuthor(change.author.trim());
+          setEdit(undefined);
+          toast({
+            title: "Factor Saved",
+            description: `${factor.id} is now used by new calculations.`,
+          });
+        }}
+      />
+
+      {importing && (
+        <FactorImportDialog
+          factors={factors}
+          author={author}
+          onClose={() => setImporting(false)}
+          onImport={(rows, options) => {
+            const report = importFactors(rows, options);
+            setAuthor(options.author.trim());
+            toast({
+              title: "Factors Imported",
+              description: `${report.added.length} added and ${report.updated.length} replaced from ${report.fileName}${
+                report.kept.length > 0 ? `; ${report.kept.length} conflicting factors were kept` : ""
+              }.`,
+            });
+            return report;
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import { useMemo } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useFootprintTrajectories } from "@/hooks/use-lca-query";
+import { getPathwayYears, pathwayIds, pathways } from "@/lib/lca/pathways";
+import type { LCAScenario } from "@/lib/lca/types";
+
+interface FootprintTrajectoryChartProps {
+  scenarios: LCAScenario[];
+  selectedScenario: number;
+}
+
+// The first scenario of each type keeps the dashboard's colours; extra ones take the rest
+const typeColors = { conventional: "hsl(var(--linear))", circular: "hsl(var(--circular))" };
+const extraColors = ["hsl(var(--primary))", "hsl(var(--warning))", "hsl(var(--muted-foreground))"];
+
+export const FootprintTrajectoryChart = ({ scenarios, selectedScenario }: FootprintTrajectoryChartProps) => {
+  const scenarioInputs = useMemo(() => scenarios.map((scenario) => scenario.inputs), [scenarios]);
+  // Each scenario is rerun for every year in the calculation worker
+  const { trajectories, isStale, errors } = useFootprintTrajectories(scenarioInputs);
+
+  // A scenario with invalid inputs is left out rather than charted from its last valid ones
+  const data = getPathwayYears().map((year, yearIndex) => ({
+    year,
+    ...Object.fromEntries(
+      trajectories.flatMap((trajectory, index) =>
+        trajectory && !errors[index] ? [[`scenario${index}`, Math.round(trajectory[yearIndex] / 10) / 100]] : [],
+      ),
+    ),
+  }));
+  const omitted = scenarios.filter((_, index) => errors[index]).map(({ name }) => name);
+
+  const chartConfig = useMemo(() => {
+    let extra = 0;
+    const used = new Set<string>();
+    return Object.fromEntries(
+      scenarios.map((scenario, index) => {
+        const color = used.has(scenario.type) ? extraColors[extra++ % extraColors.length] : typeColors[scenario.type];
+        used.add(scenario.type);
+        return [`scenario${index}`, { label: scenario.name, color }];
+      }),
+    ) satisfies ChartConfig;
+  }, [scenarios]);
+
+  const targetYear = scenarios[selectedScenario].inputs.targetYear;
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer
+        config={chartConfig}
+        className={`aspect-auto h-64 w-full transition-opacity ${isStale.some(Boolean) ? "opacity-50" : ""}`}
+      >
+        <LineChart data={data} margin={{ left: 8, right: 16, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="year" tickLine={false} axisLine={false} interval="preserveStartEnd" minTickGap={24} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            label={{ value: "t CO₂-eq", angle: -90, position: "insideLeft", className: "fill-muted-foreground text-xs" }}
+          />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, [point]) => point?.payload.year} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {targetYear !== undefined && (
+            <ReferenceLine x={targetYear} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+          )}
+          {scenarios.map((_, index) => (
+            <Line
+              key={index}
+              dataKey={`scenario${index}`}
+              type="monotone"
+              stroke={`var(--color-scenario${index})`}
+              strokeWidth={index === selectedScenario ? 3 : 2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+      {omitted.length > 0 && (
+        <p className="text-xs text-destructive">Left out until their inputs are fixed: {omitted.join(", ")}</p>
+      )}
+      <ul className="text-xs text-muted-foreground space-y-1">
+        {pathwayIds.map((id) => (
+          <li key={id}>
+            <span className="font-medium text-foreground">{pathways[id].label}</span>: {pathways[id].description} ·{" "}
+            {pathways[id].source}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
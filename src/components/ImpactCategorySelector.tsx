@@ -0,0 +1,58 @@
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { impactCategories, impactCategoryIds } from "@/lib/lca/characterization";
+import type { ImpactCategoryId } from "@/lib/lca/types";
+import { SlidersHorizontal } from "lucide-react";
+
+interface ImpactCategorySelectorProps {
+  enabled: ImpactCategoryId[];
+  onChange: (enabled: ImpactCategoryId[]) => void;
+}
+
+export const ImpactCategorySelector = ({ enabled, onChange }: ImpactCategorySelectorProps) => {
+  // Keeps the registry order whatever order categories were ticked in
+  const toggle = (id: ImpactCategoryId, checked: boolean) => {
+    onChange(impactCategoryIds.filter((category) => (category === id ? checked : enabled.includes(category))));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <SlidersHorizontal className="h-4 w-4" />
+          Impact Categories ({enabled.length})
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80">
+        <div className="space-y-3">
+          <div className="text-sm font-medium">EF 3.1 midpoint categories</div>
+          {impactCategoryIds.map((id) => (
+            <div key={id} className="flex items-start gap-2">
+              <Checkbox
+                id={`category-${id}`}
+                checked={enabled.includes(id)}
+                onCheckedChange={(checked) => toggle(id, checked === true)}
+              />
+              <Label htmlFor={`category-${id}`} className="grid gap-0.5 font-normal">
+                <span>{impactCategories[id].label}</span>
+                <span className="text-xs text-muted-foreground">
+                  {impactCategories[id].indicator} · {impactCategories[id].unit}
+                </span>
+              </Label>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <Button variant="ghost" size="sm" onClick={() => onChange([...impactCategoryIds])}>
+              Select all
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => onChange([])}>
+              Clear
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
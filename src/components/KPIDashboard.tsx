@@ -1,7 +1,20 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { LCAScenario } from "./LCADashboard";
+import { compareToBaseline } from "@/lib/lca/engine";
+import { impactCategories } from "@/lib/lca/characterization";
+import { formatScore } from "@/lib/lca/display";
+import { pedigreeIndicators } from "@/lib/lca/pedigree";
+import { uncertainParameters } from "@/lib/lca/uncertainty";
+import type {
+  ContributionCategory,
+  ImpactCategoryId,
+  LCAResult,
+  LCAScenario,
+  MonteCarloResult,
+  UncertaintySummary,
+} from "@/lib/lca/types";
+import { ImpactCategorySelector } from "./ImpactCategorySelector";
 import { 
   CloudSnow, 
   Zap, 
@@ -9,74 +22,98 @@ import {
   TrendingUp, 
   TrendingDown, 
   Droplets,
-  TreePine 
+  TreePine,
+  Factory,
+  Truck,
+  BarChart3,
+  Layers,
+  Loader2,
+  AlertTriangle,
 } from "lucide-react";
 
 interface KPIDashboardProps {
   scenario: LCAScenario;
-  isLoading: boolean;
+  result?: LCAResult; // the last good result, until the first arrives
+  baselineResult?: LCAResult;
+  enabledCategories: ImpactCategoryId[];
+  onEnabledCategoriesChange: (categories: ImpactCategoryId[]) => void;
+  uncertainty?: MonteCarloResult; // Monte Carlo run for this scenario's current inputs
+  isLoading: boolean; // the result shown is being recalculated
+  error?: string; // why the scenario's current inputs could not be calculated
 }
 
 interface KPIData {
-  co2Footprint: number; // kg CO2-eq
-  energyUse: number; // MJ
+  co2Footprint: number; // t CO2-eq
+  energyUse: number; // GJ
   recycledContent: number; // %
-  waterUse: number; // L
+  waterUse: number; // m³
   circularityIndex: number; // %
   costSavings: number; // $
+  categories: Record<ImpactCategoryId, number>; // in each category's unit
 }
 
-export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
-  
-  // Mock calculation based on scenario inputs
-  const calculateKPIs = (scenario: LCAScenario): KPIData => {
-    const { inputs } = scenario;
-    const baseValues = {
-      aluminum: { co2: 11.9, energy: 170, water: 1550 },
-      copper: { co2: 4.2, energy: 65, water: 440 }
-    };
-    
-    const base = baseValues[inputs.metal];
-    let co2Multiplier = 1;
-    let energyMultiplier = 1;
-    let waterMultiplier = 1;
-    
-    // Material source impact
-    if (inputs.materialSource === "recycled") {
-      co2Multiplier *= 0.15; // 85% reduction for recycled
-      energyMultiplier *= 0.05; // 95% reduction for recycled
-      waterMultiplier *= 0.3; // 70% reduction for recycled
-    }
-    
-    // Energy source impact
-    const energyFactors = { coal: 1.5, grid: 1.0, renewables: 0.1 };
-    co2Multiplier *= energyFactors[inputs.energySource];
-    
-    // Transport impact
-    const transportEmissions = inputs.transportDistance * 0.0001; // kg CO2/km
-    
-    // End of life impact
-    const endOfLifeBonus = inputs.endOfLife === "recycling" ? 0.8 : 1.0;
-    
-    const co2Footprint = (base.co2 * co2Multiplier + transportEmissions) * endOfLifeBonus * inputs.quantity / 1000;
-    const energyUse = base.energy * energyMultiplier * inputs.quantity / 1000;
-    const waterUse = base.water * waterMultiplier * inputs.quantity / 1000;
-    
-    const recycledContent = inputs.materialSource === "recycled" ? 85 : 0;
-    const circularityIndex = scenario.type === "circular" ? 75 : 25;
-    const costSavings = inputs.materialSource === "recycled" ? 1250 : 0;
-    
-    return {
-      co2Footprint: Math.round(co2Footprint * 100) / 100,
-      energyUse: Math.round(energyUse * 100) / 100,
-      recycledContent,
-      waterUse: Math.round(waterUse * 100) / 100,
-      circularityIndex,
-      costSavings,
-    };
-  };
+const categoryIcons: Record<ContributionCategory, typeof Factory> = {
+  production: Factory,
+  transport: Truck,
+  endOfLife: Recycle,
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toKPIs = (result: LCAResult): KPIData => ({
+  co2Footprint: round(result.impacts.co2 / 1000),
+  energyUse: round(result.impacts.energy / 1000),
+  recycledContent: round(result.circularity.recycledContent),
+  waterUse: round(result.impacts.water / 1000),
+  circularityIndex: Math.round(result.circularity.circularityIndex),
+  costSavings: Math.round(result.cost.costSavings),
+  categories: result.categories,
+});
+
+const UncertaintyRange = ({ summary, scale = 1 }: { summary?: UncertaintySummary; scale?: number }) =>
+  summary ? (
+    <div className="text-xs text-muted-foreground">
+      Median {formatScore(summary.median * scale)} · P5–P95 {formatScore(summary.p5 * scale)}–
+      {formatScore(summary.p95 * scale)}
+    </div>
+  ) : null;
 
-  const kpis = calculateKPIs(scenario);
+export const KPIDashboard = ({
+  scenario,
+  result,
+  baselineResult,
+  enabledCategories,
+  onEnabledCategoriesChange,
+  uncertainty,
+  isLoading,
+  error,
+}: KPIDashboardProps) => {
+  if (error || !result) {
+    return (
+      <Card className="shadow-card">
+        <CardContent className="flex items-center justify-center gap-3 h-40 text-sm text-muted-foreground">
+          {error ? (
+            <>
+              <AlertTriangle className="h-5 w-5 text-destructive shrink-0" />
+              <span>No results for these inputs. {error}</span>
+            </>
+          ) : (
+            <>
+              {isLoading && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
+              {isLoading ? "Calculating results..." : "No results to show"}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Without a baseline result to compare against, the scenario is its own reference
+  const baseline = baselineResult ?? result;
+  const kpis = toKPIs(result);
+  const reduction = compareToBaseline(result, baseline);
+  const allocation = result.allocation.parameters;
+  const maxContribution = Math.max(1, ...result.contributions.map(({ impacts }) => Math.abs(impacts.co2)));
   
   const getImpactColor = (value: number, threshold: number, reverse = false) => {
     const isGood = reverse ? value >= threshold : value <= threshold;
@@ -91,7 +128,7 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
   };
 
   return (
-    <div className="space-y-6">
+    <div className={`space-y-6 transition-opacity ${isLoading ? "opacity-50" : ""}`}>
       {/* Primary KPIs */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         {/* CO2 Footprint */}
@@ -105,15 +142,16 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
           <CardContent>
             <div className="space-y-2">
               <div className="flex items-baseline gap-2">
-                <span className={`text-2xl font-bold ${getImpactColor(kpis.co2Footprint, 1000)}`}>
-                  {isLoading ? "---" : kpis.co2Footprint.toLocaleString()}
+                <span className={`text-2xl font-bold ${getImpactColor(kpis.co2Footprint, 10)}`}>
+                  {kpis.co2Footprint.toLocaleString()}
                 </span>
-                <span className="text-sm text-muted-foreground">kg CO₂-eq</span>
+                <span className="text-sm text-muted-foreground">t CO₂-eq</span>
               </div>
-              {scenario.type === "circular" && (
+              <UncertaintyRange summary={uncertainty?.impacts.co2} scale={1 / 1000} />
+              {reduction.co2 > 0 && (
                 <div className="flex items-center gap-1 text-xs text-circular">
                   <TrendingDown className="h-3 w-3" />
-                  65% reduction vs linear
+                  {Math.round(reduction.co2)}% reduction vs linear
                 </div>
               )}
             </div>
@@ -132,13 +170,18 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
             <div className="space-y-2">
               <div className="flex items-baseline gap-2">
                 <span className={`text-2xl font-bold ${getImpactColor(kpis.energyUse, 50)}`}>
-                  {isLoading ? "---" : kpis.energyUse.toLocaleString()}
+                  {kpis.energyUse.toLocaleString()}
                 </span>
                 <span className="text-sm text-muted-foreground">GJ</span>
               </div>
-              {scenario.inputs.energySource === "renewables" && (
+              <UncertaintyRange summary={uncertainty?.impacts.energy} scale={1 / 1000} />
+              {result.energySupply.renewableShare >= 0.5 ? (
                 <Badge variant="outline" className="text-circular border-circular text-xs">
-                  Renewable Energy
+                  {Math.round(result.energySupply.renewableShare * 100)}% Renewable Energy
+                </Badge>
+              ) : (
+                <Badge variant="outline" className="text-xs">
+                  {result.energySupply.label} · {result.energySupply.intensity} g CO₂/kWh
                 </Badge>
               )}
             </div>
@@ -157,7 +200,7 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
             <div className="space-y-2">
               <div className="flex items-baseline gap-2">
                 <span className={`text-2xl font-bold ${getImpactColor(kpis.recycledContent, 50, true)}`}>
-                  {isLoading ? "---" : kpis.recycledContent}
+                  {kpis.recycledContent}
                 </span>
                 <span className="text-sm text-muted-foreground">%</span>
               </div>
@@ -165,6 +208,10 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
                 value={kpis.recycledContent} 
                 className="h-2"
               />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>Pre {Math.round(result.circularity.preConsumerContent)}%</span>
+                <span>Post {Math.round(result.circularity.postConsumerContent)}%</span>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -177,14 +224,14 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium flex items-center gap-2">
               <Recycle className="h-4 w-4 text-primary" />
-              Circularity Index
+              Material Circularity Indicator
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <span className="text-2xl font-bold text-primary">
-                  {isLoading ? "---" : kpis.circularityIndex}%
+                  {kpis.circularityIndex}%
                 </span>
                 <Badge variant={kpis.circularityIndex > 50 ? "default" : "secondary"}>
                   {kpis.circularityIndex > 50 ? "Circular" : "Linear"}
@@ -200,6 +247,20 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
                   <span>Circular</span>
                 </div>
               </div>
+              <div className="grid grid-cols-3 gap-2 text-center text-xs">
+                <div>
+                  <div className="font-medium">{result.circularity.mci.linearFlowIndex.toFixed(2)}</div>
+                  <div className="text-muted-foreground">Linear Flow Index</div>
+                </div>
+                <div>
+                  <div className="font-medium">{result.circularity.mci.utilityFactor.toFixed(2)}</div>
+                  <div className="text-muted-foreground">Utility F(X)</div>
+                </div>
+                <div>
+                  <div className="font-medium">{Math.round(result.circularity.mci.unrecoverableWaste).toLocaleString()} kg</div>
+                  <div className="text-muted-foreground">Unrecoverable</div>
+                </div>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -216,14 +277,15 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
             <div className="space-y-2">
               <div className="flex items-baseline gap-2">
                 <span className={`text-2xl font-bold ${getImpactColor(kpis.waterUse, 500)}`}>
-                  {isLoading ? "---" : kpis.waterUse.toLocaleString()}
+                  {kpis.waterUse.toLocaleString()}
                 </span>
-                <span className="text-sm text-muted-foreground">L</span>
+                <span className="text-sm text-muted-foreground">m³</span>
               </div>
-              {scenario.inputs.materialSource === "recycled" && (
+              <UncertaintyRange summary={uncertainty?.impacts.water} scale={1 / 1000} />
+              {reduction.water > 0 && (
                 <div className="flex items-center gap-1 text-xs text-circular">
                   <TrendingDown className="h-3 w-3" />
-                  70% water savings
+                  {Math.round(reduction.water)}% water savings
                 </div>
               )}
             </div>
@@ -231,6 +293,83 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
         </Card>
       </div>
 
+      {/* Midpoint Impact Categories */}
+      <Card className="shadow-card">
+        <CardHeader className="pb-2 flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Layers className="h-4 w-4 text-primary" />
+            Impact Categories
+          </CardTitle>
+          <ImpactCategorySelector enabled={enabledCategories} onChange={onEnabledCategoriesChange} />
+        </CardHeader>
+        <CardContent>
+          {enabledCategories.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No impact categories selected</div>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+              {enabledCategories.map((id) => {
+                const value = kpis.categories[id];
+                const base = baseline.categories[id];
+                const change = base > 0 ? ((base - value) / base) * 100 : 0;
+                return (
+                  <div key={id} className="rounded-lg border p-3 space-y-1" title={impactCategories[id].indicator}>
+                    <div className="text-xs text-muted-foreground">{impactCategories[id].label}</div>
+                    <div className="flex items-baseline gap-1">
+                      <span className="text-lg font-bold">{formatScore(value)}</span>
+                      <span className="text-xs text-muted-foreground">{impactCategories[id].unit}</span>
+                    </div>
+                    <UncertaintyRange summary={uncertainty?.impacts[id]} />
+                    {Math.round(change) !== 0 && (
+                      <div className={`flex items-center gap-1 text-xs ${change > 0 ? "text-circular" : "text-linear"}`}>
+                        {change > 0 ? <TrendingDown className="h-3 w-3" /> : <TrendingUp className="h-3 w-3" />}
+                        {Math.abs(Math.round(change))}% vs baseline
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* CO₂ Breakdown */}
+      <Card className="shadow-card">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <BarChart3 className="h-4 w-4 text-primary" />
+            CO₂ Breakdown
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {result.contributions.map((contribution, index) => {
+              const Icon = categoryIcons[contribution.category];
+              const co2 = contribution.impacts.co2;
+              return (
+                <div key={`${contribution.stage}-${index}`} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Icon className="h-3 w-3 text-muted-foreground shrink-0" />
+                      <span className="truncate">{contribution.stage}</span>
+                    </div>
+                    <span className={`font-medium ${co2 < 0 ? "text-circular" : ""}`}>
+                      {round(co2 / 1000).toLocaleString()} t
+                    </span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-muted">
+                    <div
+                      className={`h-1.5 rounded-full ${co2 < 0 ? "bg-circular" : "bg-linear"}`}
+                      style={{ width: `${(Math.abs(co2) / maxContribution) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Environmental Impact Summary */}
       <Card className="shadow-card">
         <CardHeader>
@@ -258,7 +397,7 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
             <div className="space-y-1">
               <div className="text-sm text-muted-foreground">Material Quality</div>
               <div className="font-bold text-primary">
-                {scenario.inputs.materialSource === "recycled" ? "95%" : "100%"}
+                {Math.round(result.circularity.materialQuality)}%
               </div>
             </div>
             
@@ -269,6 +408,59 @@ export const KPIDashboard = ({ scenario, isLoading }: KPIDashboardProps) => {
               </div>
             </div>
           </div>
+
+          {/* Allocation declaration, required for results to be audited */}
+          <div className="mt-4 pt-3 border-t flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span>End-of-life allocation:</span>
+            <Badge variant="outline">{result.allocation.label}</Badge>
+            <span>
+              A = {allocation.a.toFixed(2)} · R1 = {allocation.r1.toFixed(2)} · R2 = {allocation.r2.toFixed(2)} ·
+              Qs/Qp = {allocation.qsQp.toFixed(2)}
+            </span>
+            <span>· Factor database:</span>
+            <Badge variant="outline" title={result.factorDatabase.notes}>
+              {result.factorDatabase.version}
+            </Badge>
+            <span>
+              {result.factorDatabase.basedOn
+                ? result.factorDatabase.notes
+                : `released ${result.factorDatabase.released}`}
+            </span>
+            {result.inputs.targetYear !== undefined && (
+              <>
+                <span>· Projected to:</span>
+                <Badge variant="outline">{result.inputs.targetYear}</Badge>
+              </>
+            )}
+          </div>
+
+          {/* Pedigree-based data quality of the factors behind the result */}
+          <div className="mt-3 pt-3 border-t space-y-2 text-xs">
+            <div className="flex flex-wrap items-center gap-2 text-muted-foreground">
+              <span>Data quality:</span>
+              <Badge
+                variant="outline"
+                className={result.dataQuality.dqr <= 3 ? "text-circular border-circular" : "text-linear border-linear"}
+              >
+                {result.dataQuality.rating}
+              </Badge>
+              <span>DQR {result.dataQuality.dqr.toFixed(1)} (1 best, 5 worst)</span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
+              {result.dataQuality.parameters.map(({ parameter, pedigree, dqr, weight }) => (
+                <div
+                  key={parameter}
+                  className="flex justify-between gap-2"
+                  title={pedigreeIndicators.map((indicator, index) => `${indicator}: ${pedigree[index].toFixed(1)}`).join("\n")}
+                >
+                  <span className="truncate">{uncertainParameters[parameter].label}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {dqr.toFixed(1)} · {Math.round(weight * 100)}% weight
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
         </CardContent>
       </Card>
     </div>
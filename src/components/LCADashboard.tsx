@@ -1,35 +1,37 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { UserInputModule } from "./UserInputModule";
 import { ScenarioSelector } from "./ScenarioSelector";
 import { SankeyVisualization } from "./SankeyVisualization";
 import { KPIDashboard } from "./KPIDashboard";
 import { ReportGenerator } from "./ReportGenerator";
-import { Recycle, Zap, Factory } from "lucide-react";
-
-export interface LCAInputs {
-  metal: "aluminum" | "copper";
-  materialSource: "primary" | "recycled";
-  energySource: "coal" | "grid" | "renewables";
-  transportMode: "truck" | "rail" | "ship";
-  transportDistance: number;
-  endOfLife: "landfill" | "recycling";
-  quantity: number;
-}
-
-export interface LCAScenario {
-  name: string;
-  type: "conventional" | "circular";
-  inputs: LCAInputs;
-}
+import { StageContributionChart } from "./StageContributionChart";
+import { UncertaintyPanel } from "./UncertaintyPanel";
+import { FootprintTrajectoryChart } from "./FootprintTrajectoryChart";
+import { Recycle, Zap, Factory, BarChart3, Dices, Library, TrendingDown } from "lucide-react";
+import { useMonteCarlo } from "@/hooks/use-monte-carlo";
+import { useLiveLCAResults } from "@/hooks/use-lca-query";
+import { useFactorLibrary } from "@/hooks/use-factor-library";
+import { createTransportLeg } from "@/lib/lca/transport";
+import { defaultImpactCategories } from "@/lib/lca/characterization";
+import { PATHWAY_END_YEAR } from "@/lib/lca/pathways";
+import type { ImpactCategoryId, LCAInputs, LCAScenario } from "@/lib/lca/types";
 
 const defaultInputs: LCAInputs = {
   metal: "aluminum",
-  materialSource: "primary",
-  energySource: "grid",
-  transportMode: "truck",
-  transportDistance: 500,
+  recycledContent: 0,
+  postConsumerShare: 50,
+  energyMix: { grid: 100 },
+  transportLegs: [
+    createTransportLeg({ label: "Mine → Port", mode: "truck", distance: 150 }),
+    createTransportLeg({ label: "Port → Smelter", mode: "ship", distance: 3000 }),
+    createTransportLeg({ label: "Smelter → Fabricator", mode: "rail", distance: 400 }),
+    createTransportLeg({ label: "Fabricator → Customer", mode: "truck", distance: 200 }),
+  ],
   endOfLife: "recycling",
+  allocationMethod: "cff",
   quantity: 1000,
 };
 
@@ -39,16 +41,33 @@ export const LCADashboard = () => {
     {
       name: "Conventional (Linear)",
       type: "conventional",
-      inputs: { ...defaultInputs, materialSource: "primary", endOfLife: "landfill" },
+      inputs: { ...defaultInputs, recycledContent: 0, endOfLife: "landfill" },
     },
     {
       name: "Circular Economy",
       type: "circular", 
-      inputs: { ...defaultInputs, materialSource: "recycled", endOfLife: "recycling" },
+      inputs: { ...defaultInputs, recycledContent: 85, postConsumerShare: 70, endOfLife: "recycling" },
     },
   ]);
   const [selectedScenario, setSelectedScenario] = useState(0);
-  const [isRunningLCA, setIsRunningLCA] = useState(false);
+  const [enabledCategories, setEnabledCategories] = useState<ImpactCategoryId[]>(defaultImpactCategories);
+  const monteCarlo = useMonteCarlo();
+  const selectedInputs = scenarios[selectedScenario].inputs;
+  const { library } = useFactorLibrary();
+  const scenarioInputs = useMemo(() => scenarios.map((scenario) => scenario.inputs), [scenarios]);
+  const live = useLiveLCAResults(scenarioInputs);
+  // A scenario whose current inputs are invalid shows its error, not its last valid result
+  const results = live.results.map((result, index) => (live.errors[index] ? undefined : result));
+  // The first conventional scenario is the reference every other scenario is compared against
+  const baselineIndex = Math.max(0, scenarios.findIndex((scenario) => scenario.type === "conventional"));
+  const baselineResult = results[baselineIndex];
+  const selectedResult = results[selectedScenario];
+  const isSelectedLoading = live.isStale[selectedScenario] && !live.errors[selectedScenario];
+  // A Monte Carlo result only describes the exact inputs and factors it was run with
+  const uncertainty =
+    monteCarlo.inputs === selectedInputs && monteCarlo.library === library
+      ? monteCarlo.result
+      : undefined;
 
   const handleInputChange = (newInputs: LCAInputs) => {
     setCurrentInputs(newInputs);
@@ -58,30 +77,11 @@ export const LCADashboard = () => {
     setScenarios(updatedScenarios);
   };
 
-  const handleRunLCA = async () => {
-    setIsRunningLCA(true);
-    // Simulate API call to Rust backend
-    try {
-      // POST to /run_lca endpoint
-      const response = await fetch('/api/run_lca', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(currentInputs),
-      });
-      // For demo purposes, we'll just simulate the delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    } catch (error) {
-      console.log("Using mock data for demo");
-    } finally {
-      setIsRunningLCA(false);
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gradient-bg">
       {/* Header */}
       <header className="bg-card/90 backdrop-blur-sm border-b shadow-card">
-        <div className="container mx-auto px-6 py-4">
+        <div className="container mx-auto px-6 py-4 flex items-center justify-between gap-4">
           <div className="flex items-center gap-3">
             <div className="p-2 bg-gradient-primary rounded-lg">
               <Recycle className="h-6 w-6 text-primary-foreground" />
@@ -95,6 +95,12 @@ export const LCADashboard = () => {
               </p>
             </div>
           </div>
+          <Button variant="outline" asChild className="gap-2">
+            <Link to="/library">
+              <Library className="h-4 w-4" />
+              Factor Library
+            </Link>
+          </Button>
         </div>
       </header>
 
@@ -116,8 +122,7 @@ export const LCADashboard = () => {
                 <UserInputModule
                   inputs={currentInputs}
                   onChange={handleInputChange}
-                  onRunLCA={handleRunLCA}
-                  isLoading={isRunningLCA}
+                  isCalculating={live.isCalculating}
                 />
               </CardContent>
             </Card>
@@ -133,6 +138,8 @@ export const LCADashboard = () => {
               <CardContent>
                 <ScenarioSelector
                   scenarios={scenarios}
+                  results={results}
+                  baselineResult={baselineResult}
                   selectedScenario={selectedScenario}
                   onScenarioChange={setSelectedScenario}
                   onScenariosUpdate={setScenarios}
@@ -141,7 +148,7 @@ export const LCADashboard = () => {
             </Card>
 
             {/* Report Generator */}
-            <ReportGenerator />
+            <ReportGenerator scenarios={scenarios} results={results} />
           </div>
 
           {/* Right Panel - Visualizations */}
@@ -149,19 +156,72 @@ export const LCADashboard = () => {
             {/* KPI Dashboard */}
             <KPIDashboard
               scenario={scenarios[selectedScenario]}
-              isLoading={isRunningLCA}
+              result={selectedResult}
+              baselineResult={baselineResult}
+              enabledCategories={enabledCategories}
+              onEnabledCategoriesChange={setEnabledCategories}
+              uncertainty={uncertainty}
+              isLoading={isSelectedLoading}
+              error={live.errors[selectedScenario]}
             />
 
+            {/* Uncertainty Analysis */}
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Dices className="h-5 w-5 text-primary" />
+                  Uncertainty Analysis
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <UncertaintyPanel
+                  result={uncertainty}
+                  enabledCategories={enabledCategories}
+                  isRunning={monteCarlo.isRunning}
+                  completed={monteCarlo.completed}
+                  iterations={monteCarlo.iterations}
+                  error={monteCarlo.inputs === selectedInputs ? monteCarlo.error : undefined}
+                  onRun={(iterations, usePedigree) =>
+                    monteCarlo.run(selectedInputs, iterations, usePedigree)
+                  }
+                  onCancel={monteCarlo.cancel}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Stage Contributions */}
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5 text-primary" />
+                  CO₂ by Production Stage
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <StageContributionChart result={selectedResult} isLoading={isSelectedLoading} />
+              </CardContent>
+            </Card>
+
+            {/* Prospective Footprint */}
+            <Card className="shadow-card">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingDown className="h-5 w-5 text-primary" />
+                  CO₂ Footprint to {PATHWAY_END_YEAR}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FootprintTrajectoryChart scenarios={scenarios} selectedScenario={selectedScenario} />
+              </CardContent>
+            </Card>
+
             {/* Sankey Visualization */}
             <Card className="shadow-card">
               <CardHeader>
                 <CardTitle>Material & Energy Flows</CardTitle>
               </CardHeader>
               <CardContent>
-                <SankeyVisualization
-                  scenario={scenarios[selectedScenario]}
-                  isLoading={isRunningLCA}
-                />
+                <SankeyVisualization result={selectedResult} isLoading={isSelectedLoading} />
               </CardContent>
             </Card>
           </div>
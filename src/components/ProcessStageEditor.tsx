@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getProcessStages } from "@/lib/lca/stages";
+import type { MetalId } from "@/lib/lca/metals";
+import type { StageParameters } from "@/lib/lca/types";
+import { RotateCcw } from "lucide-react";
+
+interface ProcessStageEditorProps {
+  metal: MetalId;
+  overrides?: Record<string, Partial<StageParameters>>;
+  onChange: (overrides: Record<string, Partial<StageParameters>>) => void;
+}
+
+const parameterFields: { key: keyof StageParameters; unit: string }[] = [
+  { key: "electricity", unit: "kWh" },
+  { key: "directCo2", unit: "kg CO₂" },
+  { key: "energy", unit: "MJ" },
+  { key: "water", unit: "L" },
+];
+
+export const ProcessStageEditor = ({ metal, overrides = {}, onChange }: ProcessStageEditorProps) => {
+  const stages = getProcessStages(metal, overrides);
+  if (!stages) return null;
+
+  const updateStage = (stageId: string, key: keyof StageParameters, value: number) => {
+    onChange({ ...overrides, [stageId]: { ...overrides[stageId], [key]: Math.max(0, value) } });
+  };
+
+  const hasOverrides = stages.some((stage) => overrides[stage.id]);
+
+  return (
+    <Card className="p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Primary Production Stages (per kg metal)</Label>
+        {hasOverrides && (
+          <Button variant="ghost" size="sm" className="gap-1 h-7" onClick={() => onChange({})}>
+            <RotateCcw className="h-3 w-3" />
+            Reset
+          </Button>
+        )}
+      </div>
+      {stages.map((stage) => (
+        <div key={stage.id} className="space-y-1">
+          <div className="text-sm font-medium" title={stage.description}>
+            {stage.label}
+            {overrides[stage.id] && <span className="ml-2 text-xs text-warning">edited</span>}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {parameterFields.map(({ key, unit }) => (
+              <div key={key} className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={stage[key]}
+                  onChange={(event) => updateStage(stage.id, key, Number(event.target.value))}
+                  className="h-7 px-2"
+                />
+                <span className="text-xs text-muted-foreground whitespace-nowrap">{unit}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </Card>
+  );
+};
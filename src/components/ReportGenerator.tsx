@@ -2,6 +2,7 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { 
   FileText, 
@@ -10,63 +11,59 @@ import {
   Printer,
   CheckCircle,
   Clock,
-  BarChart3
+  BarChart3,
+  Square
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { useJob } from "@/hooks/use-job";
+import type { Report } from "@/lib/api-contract";
+import { formatScore } from "@/lib/lca/display";
+import { getFactorLibrary } from "@/lib/lca/factor-library";
+import type { LCAResult, LCAScenario } from "@/lib/lca/types";
 
-export const ReportGenerator = () => {
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [reportGenerated, setReportGenerated] = useState(false);
+interface ReportGeneratorProps {
+  scenarios: LCAScenario[];
+  results: (LCAResult | undefined)[]; // undefined until a scenario's first result arrives, or while its inputs are invalid
+}
+
+export const ReportGenerator = ({ scenarios, results }: ReportGeneratorProps) => {
+  const [report, setReport] = useState<Report | null>(null);
+  const { job, isRunning: isGenerating, run, cancel } = useJob();
+  const isReady = results.length === scenarios.length && results.every(Boolean);
 
   const handleGenerateReport = async () => {
-    setIsGenerating(true);
-    
     try {
-      // Simulate API call to Rust backend for report generation
-      const response = await fetch('/api/generate_report', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          format: 'pdf',
+      const generated = await run({
+        kind: "report",
+        request: {
+          format: "pdf",
           includeCharts: true,
-          includeComparison: true 
-        }),
+          includeComparison: true,
+          scenarios: scenarios.map((scenario, index) => ({
+            name: scenario.name,
+            type: scenario.type,
+            result: results[index],
+          })),
+          library: getFactorLibrary(),
+        },
       });
+      if (!generated) return; // cancelled
       
-      // Simulate processing time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      setReportGenerated(true);
+      setReport(generated);
       toast({
         title: "Report Generated Successfully",
         description: "Your LCA report is ready for download.",
       });
       
     } catch (error) {
-      console.log("Using mock report generation for demo");
-      // Mock successful generation for demo
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      setReportGenerated(true);
       toast({
-        title: "Report Generated Successfully",
-        description: "Your LCA report is ready for download.",
+        title: "Report Generation Failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
       });
-    } finally {
-      setIsGenerating(false);
     }
   };
 
-  const mockReportSections = [
-    { name: "Executive Summary", status: "complete", pages: 2 },
-    { name: "Methodology & Scope", status: "complete", pages: 3 },
-    { name: "Input Parameters", status: "complete", pages: 1 },
-    { name: "Impact Assessment Results", status: "complete", pages: 4 },
-    { name: "Scenario Comparison", status: "complete", pages: 3 },
-    { name: "Circularity Analysis", status: "complete", pages: 2 },
-    { name: "Recommendations", status: "complete", pages: 2 },
-    { name: "Appendices", status: "complete", pages: 5 },
-  ];
-
   return (
     <Card className="shadow-card">
       <CardHeader>
@@ -77,7 +74,7 @@ export const ReportGenerator = () => {
       </CardHeader>
       <CardContent className="space-y-4">
         
-        {!reportGenerated ? (
+        {!report ? (
           <>
             {/* Generation Controls */}
             <div className="space-y-3">
@@ -99,7 +96,7 @@ export const ReportGenerator = () => {
               
               <Button
                 onClick={handleGenerateReport}
-                disabled={isGenerating}
+                disabled={isGenerating || !isReady}
                 className="w-full bg-gradient-primary hover:shadow-glow transition-all"
               >
                 {isGenerating ? (
@@ -114,6 +111,11 @@ export const ReportGenerator = () => {
                   </>
                 )}
               </Button>
+              {!isReady && (
+                <p className="text-xs text-muted-foreground">
+                  Every scenario needs a result before it can be reported; fix any invalid inputs.
+                </p>
+              )}
             </div>
 
             {/* Progress Indicator */}
@@ -122,11 +124,19 @@ export const ReportGenerator = () => {
                 <div className="space-y-2">
                   <div className="flex items-center gap-2 text-sm">
                     <Clock className="h-4 w-4 text-primary animate-spin" />
-                    <span>Processing LCA data and generating visualizations...</span>
-                  </div>
-                  <div className="w-full bg-muted rounded-full h-2">
-                    <div className="bg-primary h-2 rounded-full animate-pulse" style={{ width: '70%' }} />
+                    <span className="flex-1">
+                      {job?.state === "running"
+                        ? `Sampling uncertainty and laying out sections... ${job.progress}%`
+                        : job?.state === "queued"
+                          ? "Queued behind another job..."
+                          : "Sending scenarios to the LCA service..."}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={cancel} className="gap-2">
+                      <Square className="h-4 w-4" />
+                      Cancel
+                    </Button>
                   </div>
+                  <Progress value={job?.progress ?? 0} className="h-2" />
                 </div>
               </Card>
             )}
@@ -146,11 +156,11 @@ export const ReportGenerator = () => {
               <div className="space-y-2">
                 <h4 className="text-sm font-medium">Report Contents:</h4>
                 <div className="space-y-1">
-                  {mockReportSections.map((section, index) => (
+                  {report.sections.map((section, index) => (
                     <div key={index} className="flex items-center justify-between text-sm">
                       <div className="flex items-center gap-2">
                         <CheckCircle className="h-3 w-3 text-circular" />
-                        <span>{section.name}</span>
+                        <span>{section.title}</span>
                       </div>
                       <Badge variant="outline" className="text-xs">
                         {section.pages} {section.pages === 1 ? 'page' : 'pages'}
@@ -160,20 +170,37 @@ export const ReportGenerator = () => {
                 </div>
               </div>
               
+              <Separator />
+
+              {/* Uncertainty Ranges */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">CO₂ Uncertainty (90% range):</h4>
+                <div className="space-y-1">
+                  {report.uncertainty.map(({ scenario, p5, median, p95 }) => (
+                    <div key={scenario} className="flex items-center justify-between text-sm">
+                      <span className="truncate">{scenario}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatScore(p5)} – {formatScore(p95)} (median {formatScore(median)}) kg CO₂-eq
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <Separator />
               
               {/* Report Stats */}
               <div className="grid grid-cols-3 gap-3 text-center">
                 <div>
-                  <div className="text-lg font-bold text-primary">22</div>
+                  <div className="text-lg font-bold text-primary">{report.pageCount}</div>
                   <div className="text-xs text-muted-foreground">Total Pages</div>
                 </div>
                 <div>
-                  <div className="text-lg font-bold text-primary">8</div>
+                  <div className="text-lg font-bold text-primary">{report.chartCount}</div>
                   <div className="text-xs text-muted-foreground">Charts</div>
                 </div>
                 <div>
-                  <div className="text-lg font-bold text-primary">PDF</div>
+                  <div className="text-lg font-bold text-primary">{report.format.toUpperCase()}</div>
                   <div className="text-xs text-muted-foreground">Format</div>
                 </div>
               </div>
@@ -194,7 +221,7 @@ export const ReportGenerator = () => {
                 variant="ghost" 
                 size="sm" 
                 className="w-full gap-2"
-                onClick={() => setReportGenerated(false)}
+                onClick={() => setReport(null)}
               >
                 <Printer className="h-4 w-4" />
                 Generate New Report
@@ -1,116 +1,41 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { LCAScenario } from "./LCADashboard";
-import { Loader2, ArrowRight, Recycle, Factory, Zap, Truck } from "lucide-react";
+import type { FlowType, InventoryFlow, LCAResult } from "@/lib/lca/types";
+import { Loader2, ArrowRight, Recycle, Factory, Zap, Truck, type LucideIcon } from "lucide-react";
 
 interface SankeyVisualizationProps {
-  scenario: LCAScenario;
-  isLoading: boolean;
+  result?: LCAResult; // the last good result, until the first arrives
+  isLoading: boolean; // the result shown is being recalculated
 }
 
-interface FlowData {
-  from: string;
-  to: string;
-  value: number;
-  type: "primary" | "recycled" | "energy" | "transport" | "waste" | "circular";
-  icon?: any;
+interface FlowData extends InventoryFlow {
+  icon?: LucideIcon;
 }
 
-export const SankeyVisualization = ({ scenario, isLoading }: SankeyVisualizationProps) => {
-  
-  const generateFlowData = (scenario: LCAScenario): FlowData[] => {
-    const { inputs } = scenario;
-    const baseQuantity = inputs.quantity / 1000; // Convert to tons
-    
-    const flows: FlowData[] = [];
-    
-    // Material input flows
-    if (inputs.materialSource === "primary") {
-      flows.push({
-        from: "Raw Materials",
-        to: "Production",
-        value: baseQuantity,
-        type: "primary",
-        icon: Factory,
-      });
-    } else {
-      flows.push({
-        from: "Recycled Materials",
-        to: "Production",
-        value: baseQuantity * 0.85,
-        type: "recycled",
-        icon: Recycle,
-      });
-      flows.push({
-        from: "Raw Materials",
-        to: "Production",
-        value: baseQuantity * 0.15,
-        type: "primary",
-        icon: Factory,
-      });
-    }
-    
-    // Energy flows
-    const energyAmount = inputs.metal === "aluminum" ? baseQuantity * 15 : baseQuantity * 6;
-    flows.push({
-      from: `${inputs.energySource} Energy`,
-      to: "Production",
-      value: energyAmount,
-      type: "energy",
-      icon: Zap,
-    });
-    
-    // Transport flows
-    flows.push({
-      from: "Production",
-      to: "Distribution",
-      value: baseQuantity,
-      type: "transport",
-      icon: Truck,
-    });
-    
-    // End-of-life flows
-    flows.push({
-      from: "Distribution",
-      to: "Use Phase",
-      value: baseQuantity,
-      type: "primary",
-    });
-    
-    if (inputs.endOfLife === "recycling") {
-      flows.push({
-        from: "Use Phase",
-        to: "Recycling",
-        value: baseQuantity * 0.9,
-        type: "circular",
-        icon: Recycle,
-      });
-      flows.push({
-        from: "Use Phase",
-        to: "Waste",
-        value: baseQuantity * 0.1,
-        type: "waste",
-      });
-      flows.push({
-        from: "Recycling",
-        to: "Recycled Materials",
-        value: baseQuantity * 0.85,
-        type: "circular",
-        icon: Recycle,
-      });
-    } else {
-      flows.push({
-        from: "Use Phase",
-        to: "Waste",
-        value: baseQuantity,
-        type: "waste",
-      });
-    }
-    
-    return flows;
-  };
+const flowIcons: Partial<Record<FlowType, LucideIcon>> = {
+  primary: Factory,
+  recycled: Recycle,
+  energy: Zap,
+  transport: Truck,
+  circular: Recycle,
+};
+
+export const SankeyVisualization = ({ result, isLoading }: SankeyVisualizationProps) => {
+  if (!result) {
+    return (
+      <div className="flex items-center justify-center h-64 bg-muted/20 rounded-lg">
+        <div className="text-center space-y-2">
+          {isLoading && <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />}
+          <p className="text-sm text-muted-foreground">
+            {isLoading ? "Calculating material flows..." : "No material flows to show"}
+          </p>
+        </div>
+      </div>
+    );
+  }
 
-  const flows = generateFlowData(scenario);
+  const flows: FlowData[] = result.inventory.map((flow) => ({ ...flow, icon: flowIcons[flow.type] }));
+  const { circularity } = result;
   
   const getFlowColor = (type: FlowData["type"]) => {
     const colors = {
@@ -138,26 +63,15 @@ export const SankeyVisualization = ({ scenario, isLoading }: SankeyVisualization
 
   // Group flows by stage
   const stages = [
-    { name: "Inputs", flows: flows.filter(f => f.to === "Production") },
-    { name: "Production", flows: flows.filter(f => f.from === "Production") },
-    { name: "Distribution", flows: flows.filter(f => f.from === "Distribution") },
-    { name: "End of Life", flows: flows.filter(f => f.from === "Use Phase") },
-    { name: "Recovery", flows: flows.filter(f => f.from === "Recycling") },
+    { name: "Inputs", flows: flows.filter(f => f.stage === "inputs") },
+    { name: "Production", flows: flows.filter(f => f.stage === "production") },
+    { name: "Distribution", flows: flows.filter(f => f.stage === "distribution") },
+    { name: "End of Life", flows: flows.filter(f => f.stage === "endOfLife") },
+    { name: "Recovery", flows: flows.filter(f => f.stage === "recovery") },
   ];
 
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center h-64 bg-muted/20 rounded-lg">
-        <div className="text-center space-y-2">
-          <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
-          <p className="text-sm text-muted-foreground">Calculating material flows...</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
-    <div className="space-y-6">
+    <div className={`space-y-6 transition-opacity ${isLoading ? "opacity-50" : ""}`}>
       {/* Flow Visualization */}
       <div className="relative bg-gradient-to-r from-background to-muted/20 rounded-lg p-6 min-h-96">
         <div className="grid grid-cols-5 gap-4 h-full">
@@ -177,11 +91,14 @@ export const SankeyVisualization = ({ scenario, isLoading }: SankeyVisualization
                           {Icon && <Icon className={`h-4 w-4 ${getFlowTextColor(flow.type)}`} />}
                           <div className="flex-1 min-w-0">
                             <div className={`text-sm font-medium ${getFlowTextColor(flow.type)}`}>
-                              {flow.from === "Production" ? flow.to : flow.from}
+                              {flow.stage === "endOfLife" || flow.stage === "recovery" ? flow.to : flow.from}
                             </div>
                             <div className="text-xs text-muted-foreground">
-                              {flow.value.toFixed(1)} {flow.type === "energy" ? "GJ" : "tons"}
+                              {flow.value.toFixed(1)} {flow.unit === "GJ" ? "GJ" : "tons"}
                             </div>
+                            {flow.detail && (
+                              <div className="text-xs text-muted-foreground truncate">{flow.detail}</div>
+                            )}
                           </div>
                         </div>
                       </Card>
@@ -201,7 +118,7 @@ export const SankeyVisualization = ({ scenario, isLoading }: SankeyVisualization
         </div>
 
         {/* Circular Flow Indicators */}
-        {scenario.type === "circular" && (
+        {circularity.materialLoops > 0 && (
           <div className="absolute inset-0 pointer-events-none">
             <svg className="w-full h-full">
               {/* Circular flow curve from recycling back to inputs */}
@@ -250,28 +167,28 @@ export const SankeyVisualization = ({ scenario, isLoading }: SankeyVisualization
           <div>
             <div className="text-sm text-muted-foreground">Material Loops</div>
             <div className="text-lg font-bold text-circular">
-              {scenario.inputs.endOfLife === "recycling" ? "1" : "0"}
+              {circularity.materialLoops}
             </div>
           </div>
           
           <div>
             <div className="text-sm text-muted-foreground">Recovery Rate</div>
             <div className="text-lg font-bold text-primary">
-              {scenario.inputs.endOfLife === "recycling" ? "90%" : "0%"}
+              {Math.round(circularity.recoveryRate)}%
             </div>
           </div>
           
           <div>
             <div className="text-sm text-muted-foreground">Linear Flows</div>
             <div className="text-lg font-bold text-linear">
-              {scenario.type === "circular" ? "25%" : "100%"}
+              {Math.round(circularity.linearFlowShare)}%
             </div>
           </div>
           
           <div>
             <div className="text-sm text-muted-foreground">Efficiency</div>
-            <Badge variant={scenario.type === "circular" ? "default" : "secondary"}>
-              {scenario.type === "circular" ? "High" : "Low"}
+            <Badge variant={circularity.circularityIndex > 50 ? "default" : "secondary"}>
+              {circularity.circularityIndex > 50 ? "High" : "Low"}
             </Badge>
           </div>
         </div>
@@ -3,11 +3,18 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LCAScenario } from "./LCADashboard";
-import { Recycle, TrendingDown, ArrowRightLeft, Factory } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { compareToBaseline } from "@/lib/lca/engine";
+import { metals } from "@/lib/lca/metals";
+import { alloys } from "@/lib/lca/alloys";
+import type { LCAResult, LCAScenario } from "@/lib/lca/types";
+import { Recycle, TrendingDown, ArrowRightLeft, Factory, Activity } from "lucide-react";
+import { SensitivityPanel } from "./SensitivityPanel";
 
 interface ScenarioSelectorProps {
   scenarios: LCAScenario[];
+  results: (LCAResult | undefined)[]; // undefined until a scenario's first result arrives, or while its inputs are invalid
+  baselineResult?: LCAResult;
   selectedScenario: number;
   onScenarioChange: (index: number) => void;
   onScenariosUpdate: (scenarios: LCAScenario[]) => void;
@@ -15,6 +22,8 @@ interface ScenarioSelectorProps {
 
 export const ScenarioSelector = ({
   scenarios,
+  results,
+  baselineResult,
   selectedScenario,
   onScenarioChange,
   onScenariosUpdate,
@@ -29,32 +38,56 @@ export const ScenarioSelector = ({
     return type === "circular" ? "circular" : "linear";
   };
 
-  const getImpactPreview = (scenario: LCAScenario) => {
-    const isCircular = scenario.type === "circular";
-    const recycledContent = scenario.inputs.materialSource === "recycled" ? 85 : 0;
-    const co2Reduction = isCircular ? 65 : 0;
-    
+  const getImpactPreview = (index: number) => {
+    const result = results[index];
+    if (!result || !baselineResult) return undefined;
+    const reduction = compareToBaseline(result, baselineResult);
+
     return {
-      recycledContent,
-      co2Reduction,
-      energySavings: isCircular ? 45 : 0,
+      recycledContent: Math.round(result.circularity.recycledContent),
+      co2Reduction: Math.round(reduction.co2),
+      energySavings: Math.round(reduction.energy),
     };
   };
 
+  // A dash stands in until a scenario has a result to compare
+  const percent = (value?: number) => (value === undefined ? "—" : `${value}%`);
+
+  const maxCo2Reduction = baselineResult
+    ? Math.max(0, ...results.filter(Boolean).map((result) => Math.round(compareToBaseline(result, baselineResult).co2)))
+    : 0;
+
   return (
     <div className="space-y-4">
       {/* Toggle Compare Mode */}
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Scenarios</h3>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => setCompareMode(!compareMode)}
-          className="gap-2"
-        >
-          <ArrowRightLeft className="h-4 w-4" />
-          {compareMode ? "Single View" : "Compare"}
-        </Button>
+        <div className="flex gap-2">
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Activity className="h-4 w-4" />
+                Sensitivity
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Sensitivity Analysis · {scenarios[selectedScenario].name}</DialogTitle>
+                <DialogDescription>Rank which inputs and emission factors drive this scenario's result.</DialogDescription>
+              </DialogHeader>
+              <SensitivityPanel inputs={scenarios[selectedScenario].inputs} />
+            </DialogContent>
+          </Dialog>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCompareMode(!compareMode)}
+            className="gap-2"
+          >
+            <ArrowRightLeft className="h-4 w-4" />
+            {compareMode ? "Single View" : "Compare"}
+          </Button>
+        </div>
       </div>
 
       {compareMode ? (
@@ -63,7 +96,7 @@ export const ScenarioSelector = ({
           {scenarios.map((scenario, index) => {
             const Icon = getScenarioIcon(scenario.type);
             const color = getScenarioColor(scenario.type);
-            const impact = getImpactPreview(scenario);
+            const impact = getImpactPreview(index);
             
             return (
               <Card
@@ -84,15 +117,15 @@ export const ScenarioSelector = ({
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">CO₂ Reduction:</span>
-                      <Badge variant={impact.co2Reduction > 0 ? "default" : "secondary"}>
-                        {impact.co2Reduction > 0 ? `-${impact.co2Reduction}%` : "Baseline"}
+                      <Badge variant={impact?.co2Reduction > 0 ? "default" : "secondary"}>
+                        {!impact ? "—" : impact.co2Reduction > 0 ? `-${impact.co2Reduction}%` : "Baseline"}
                       </Badge>
                     </div>
                     
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">Recycled Content:</span>
                       <Badge variant="outline">
-                        {impact.recycledContent}%
+                        {percent(impact?.recycledContent)}
                       </Badge>
                     </div>
                   </div>
@@ -100,13 +133,15 @@ export const ScenarioSelector = ({
                   <div className="flex gap-2 text-xs">
                     <Badge
                       variant="outline"
-                      className={scenario.inputs.materialSource === "recycled" ? "text-circular border-circular" : ""}
+                      className={scenario.inputs.recycledContent > 0 ? "text-circular border-circular" : ""}
                     >
-                      {scenario.inputs.materialSource}
-                    </Badge>
-                    <Badge variant="outline">
-                      {scenario.inputs.energySource}
+                      {scenario.inputs.recycledContent}% recycled
                     </Badge>
+                    {results[index] && (
+                      <Badge variant="outline">
+                        {results[index].energySupply.label}
+                      </Badge>
+                    )}
                     <Badge
                       variant="outline"
                       className={scenario.inputs.endOfLife === "recycling" ? "text-circular border-circular" : ""}
@@ -138,7 +173,7 @@ export const ScenarioSelector = ({
           </TabsList>
 
           {scenarios.map((scenario, index) => {
-            const impact = getImpactPreview(scenario);
+            const impact = getImpactPreview(index);
             return (
               <TabsContent key={index} value={index.toString()} className="mt-4">
                 <Card className="p-4">
@@ -153,21 +188,21 @@ export const ScenarioSelector = ({
                     <div className="grid grid-cols-3 gap-4 text-center">
                       <div className="space-y-1">
                         <div className="text-2xl font-bold text-circular">
-                          {impact.co2Reduction}%
+                          {percent(impact?.co2Reduction)}
                         </div>
                         <div className="text-xs text-muted-foreground">CO₂ Reduction</div>
                       </div>
                       
                       <div className="space-y-1">
                         <div className="text-2xl font-bold text-primary">
-                          {impact.recycledContent}%
+                          {percent(impact?.recycledContent)}
                         </div>
                         <div className="text-xs text-muted-foreground">Recycled Content</div>
                       </div>
                       
                       <div className="space-y-1">
                         <div className="text-2xl font-bold text-accent">
-                          {impact.energySavings}%
+                          {percent(impact?.energySavings)}
                         </div>
                         <div className="text-xs text-muted-foreground">Energy Savings</div>
                       </div>
@@ -175,17 +210,19 @@ export const ScenarioSelector = ({
 
                     <div className="flex flex-wrap gap-2">
                       <Badge variant="outline">
-                        {scenario.inputs.metal}
+                        {scenario.inputs.alloy ? alloys[scenario.inputs.alloy].label : metals[scenario.inputs.metal].label}
                       </Badge>
                       <Badge
                         variant="outline"
-                        className={scenario.inputs.materialSource === "recycled" ? "text-circular border-circular" : ""}
+                        className={scenario.inputs.recycledContent > 0 ? "text-circular border-circular" : ""}
                       >
-                        {scenario.inputs.materialSource} material
-                      </Badge>
-                      <Badge variant="outline">
-                        {scenario.inputs.energySource} energy
+                        {scenario.inputs.recycledContent}% recycled material
                       </Badge>
+                      {results[index] && (
+                        <Badge variant="outline">
+                          {results[index].energySupply.label} energy
+                        </Badge>
+                      )}
                       <Badge
                         variant="outline"
                         className={scenario.inputs.endOfLife === "recycling" ? "text-circular border-circular" : ""}
@@ -207,7 +244,9 @@ export const ScenarioSelector = ({
           <TrendingDown className="h-4 w-4 text-circular" />
           <span className="font-medium">Impact Comparison:</span>
           <span className="text-muted-foreground">
-            Circular economy approaches can reduce environmental impact by up to 65%
+            {maxCo2Reduction > 0
+              ? `The best scenario cuts CO₂ by ${maxCo2Reduction}% against the linear baseline`
+              : "No scenario improves on the linear baseline yet"}
           </span>
         </div>
       </Card>
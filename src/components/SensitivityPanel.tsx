@@ -0,0 +1,192 @@
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { impactCategoryIds } from "@/lib/lca/characterization";
+import { formatScore, getImpactDisplay } from "@/lib/lca/display";
+import { useFactorLibrary } from "@/hooks/use-factor-library";
+import { SERVICE_ENGINE_RUNS } from "@/hooks/use-job";
+import { useSensitivity } from "@/hooks/use-sensitivity";
+import type { ImpactKey, LCAInputs, SensitivityMethod, SensitivityResult } from "@/lib/lca/types";
+import { TornadoChart } from "./TornadoChart";
+import { Activity, AlertTriangle, Square } from "lucide-react";
+
+interface SensitivityPanelProps {
+  inputs: LCAInputs;
+}
+
+const metricOptions: ImpactKey[] = ["co2", "energy", "water", ...impactCategoryIds];
+
+const methodDescriptions: Record<SensitivityMethod, string> = {
+  oat: "Moves one parameter at a time with the rest held at their current values.",
+  morris: "Elementary effects screening across every parameter's range (20 trajectories).",
+  sobol: "Share of output variance each parameter explains, alone and with interactions (512 Saltelli samples).",
+};
+
+const indexConfigs: Record<Exclude<SensitivityMethod, "oat">, ChartConfig> = {
+  morris: {
+    importance: { label: "μ*", color: "hsl(var(--primary))" },
+    sigma: { label: "σ", color: "hsl(var(--warning))" },
+  },
+  sobol: {
+    importance: { label: "Total-order", color: "hsl(var(--primary))" },
+    firstOrder: { label: "First-order", color: "hsl(var(--circular))" },
+  },
+};
+
+const formatShare = (index: number) => String(Math.round(index * 100));
+
+const IndexChart = ({ result }: { result: SensitivityResult }) => {
+  const method = result.method as Exclude<SensitivityMethod, "oat">;
+  const { scale } = getImpactDisplay(result.metric);
+  const data = result.entries.map((entry) =>
+    method === "morris"
+      ? { parameter: entry.label, importance: entry.importance * scale, sigma: entry.sigma * scale }
+      : { parameter: entry.label, importance: entry.importance, firstOrder: entry.firstOrder },
+  );
+  const [, secondary] = Object.keys(indexConfigs[method]);
+
+  return (
+    <ChartContainer config={indexConfigs[method]} className="aspect-auto w-full" style={{ height: data.length * 36 + 40 }}>
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="parameter" width={170} tickLine={false} axisLine={false} />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <Bar dataKey="importance" fill="var(--color-importance)" radius={2} />
+        <Bar dataKey={secondary} fill={`var(--color-${secondary})`} radius={2} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export const SensitivityPanel = ({ inputs }: SensitivityPanelProps) => {
+  const [method, setMethod] = useState<SensitivityMethod>("oat");
+  const [metric, setMetric] = useState<ImpactKey>("co2");
+  const [spread, setSpread] = useState<"0.1" | "range">("0.1");
+  const sensitivity = useSensitivity();
+  const { library } = useFactorLibrary();
+  const { cancel } = sensitivity;
+
+  // A run for inputs that have since changed would only be thrown away
+  useEffect(() => cancel, [inputs, cancel]);
+
+  // A result only describes the exact inputs, factors and method it was run with
+  const result =
+    sensitivity.inputs === inputs && sensitivity.library === library && sensitivity.result?.method === method
+      ? sensitivity.result
+      : undefined;
+
+  const handleRun = () =>
+    sensitivity.run({ inputs, method, metric, spread: spread === "range" ? "range" : 0.1 });
+
+  const error = sensitivity.inputs === inputs ? sensitivity.error : undefined;
+  const display = result && getImpactDisplay(result.metric);
+
+  return (
+    <div className="space-y-4">
+      <Tabs
+        value={method}
+        onValueChange={(value) => {
+          cancel();
+          setMethod(value as SensitivityMethod);
+        }}
+      >
+        <TabsList className="grid w-full grid-cols-3">
+          <TabsTrigger value="oat">One at a time</TabsTrigger>
+          <TabsTrigger value="morris">Morris</TabsTrigger>
+          <TabsTrigger value="sobol">Sobol</TabsTrigger>
+        </TabsList>
+      </Tabs>
+      <p className="text-xs text-muted-foreground">{methodDescriptions[method]}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-2 items-end">
+        <div className="space-y-1">
+          <Label>Result</Label>
+          <Select value={metric} onValueChange={(value) => setMetric(value as ImpactKey)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {metricOptions.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {getImpactDisplay(option).label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {method === "oat" && (
+          <div className="space-y-1">
+            <Label>Perturbation</Label>
+            <Select value={spread} onValueChange={(value) => setSpread(value as "0.1" | "range")}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0.1">±10%</SelectItem>
+                <SelectItem value="range">Full range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {sensitivity.isRunning ? (
+          <Button variant="outline" onClick={cancel} className="gap-2">
+            <Square className="h-4 w-4" />
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleRun} className="gap-2">
+            <Activity className="h-4 w-4" />
+            Run Analysis
+          </Button>
+        )}
+      </div>
+
+      {sensitivity.isRunning && (
+        <div className="space-y-1">
+          <Progress value={(sensitivity.completed / Math.max(1, sensitivity.total)) * 100} className="h-2" />
+          <div className="text-xs text-muted-foreground">
+            {sensitivity.completed.toLocaleString()} / {sensitivity.total.toLocaleString()} engine runs
+            {sensitivity.total >= SERVICE_ENGINE_RUNS && " · running on the LCA service"}
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          {result.method === "oat" ? <TornadoChart result={result} /> : <IndexChart result={result} />}
+          <ol className="space-y-1 text-sm">
+            {result.entries.slice(0, 3).map((entry, index) => (
+              <li key={entry.parameter} className="flex justify-between gap-2">
+                <span>
+                  {index + 1}. {entry.label}
+                </span>
+                <span className="text-muted-foreground">
+                  {result.method === "sobol"
+                    ? `${formatShare(entry.importance)}% of variance (95% CI ${entry.importanceInterval.map(formatShare).join("–")}%)`
+                    : `${formatScore(entry.importance * display.scale)} ${display.unit}`}
+                </span>
+              </li>
+            ))}
+          </ol>
+          <div className="text-xs text-muted-foreground">
+            Baseline {formatScore(result.baseline * display.scale)} {display.unit} ·{" "}
+            {result.evaluations.toLocaleString()} engine runs
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
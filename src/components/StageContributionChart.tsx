@@ -0,0 +1,43 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { LCAResult } from "@/lib/lca/types";
+
+interface StageContributionChartProps {
+  result?: LCAResult; // the last good result, until the first arrives
+  isLoading: boolean; // the result shown is being recalculated
+}
+
+const chartConfig = {
+  co2: { label: "t CO₂-eq", color: "hsl(var(--linear))" },
+} satisfies ChartConfig;
+
+export const StageContributionChart = ({ result, isLoading }: StageContributionChartProps) => {
+  const data = (result?.stages ?? []).map((stage) => ({
+    stage: stage.label,
+    co2: Math.round(stage.impacts.co2 / 10) / 100,
+  }));
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-48 bg-muted/20 rounded-lg text-sm text-muted-foreground">
+        {isLoading ? "Calculating stage contributions..." : "No production stages to show"}
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className={`aspect-auto w-full transition-opacity ${isLoading ? "opacity-50" : ""}`}
+      style={{ height: data.length * 36 + 40 }}
+    >
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="stage" width={150} tickLine={false} axisLine={false} />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <Bar dataKey="co2" fill="var(--color-co2)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,40 @@
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import type { SensitivityResult } from "@/lib/lca/types";
+
+interface TornadoChartProps {
+  result: SensitivityResult; // one-at-a-time result
+}
+
+const chartConfig = {
+  low: { label: "Low value", color: "hsl(var(--circular))" },
+  high: { label: "High value", color: "hsl(var(--linear))" },
+} satisfies ChartConfig;
+
+const percentChange = (output: number, baseline: number) =>
+  baseline !== 0 ? Math.round(((output - baseline) / Math.abs(baseline)) * 1000) / 10 : 0;
+
+export const TornadoChart = ({ result }: TornadoChartProps) => {
+  const data = result.entries
+    .filter((entry) => entry.low && entry.high)
+    .map((entry) => ({
+      parameter: entry.label,
+      low: percentChange(entry.low.output, result.baseline),
+      high: percentChange(entry.high.output, result.baseline),
+    }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: data.length * 32 + 40 }}>
+      {/* Stacking by sign draws each parameter's low and high swings either side of the baseline */}
+      <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ left: 8, right: 16 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickLine={false} axisLine={false} unit="%" />
+        <YAxis type="category" dataKey="parameter" width={170} tickLine={false} axisLine={false} />
+        <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+        <ReferenceLine x={0} stroke="hsl(var(--border))" />
+        <Bar dataKey="low" stackId="swing" fill="var(--color-low)" radius={2} />
+        <Bar dataKey="high" stackId="swing" fill="var(--color-high)" radius={2} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
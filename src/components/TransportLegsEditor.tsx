@@ -0,0 +1,168 @@
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { createTransportLeg, resolveTransportFuel, transportFuelLabels, transportModes } from "@/lib/lca/transport";
+import type { TransportFuel, TransportLeg, TransportMode } from "@/lib/lca/types";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+
+interface TransportLegsEditorProps {
+  legs: TransportLeg[];
+  onChange: (legs: TransportLeg[]) => void;
+  errors: Record<string, string>;
+}
+
+const modeIcons: Record<TransportMode, string> = {
+  truck: "🚛",
+  rail: "🚂",
+  ship: "🚢",
+};
+
+export const TransportLegsEditor = ({ legs, onChange, errors }: TransportLegsEditorProps) => {
+  const updateLeg = (index: number, changes: Partial<TransportLeg>) => {
+    onChange(legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)));
+  };
+
+  const moveLeg = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= legs.length) return;
+    const reordered = [...legs];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeLeg = (index: number) => {
+    onChange(legs.filter((_, i) => i !== index));
+  };
+
+  const addLeg = () => {
+    const previous = legs[legs.length - 1];
+    onChange([...legs, createTransportLeg({ mode: previous?.mode })]);
+  };
+
+  const totalDistance = legs.reduce((total, leg) => total + leg.distance, 0);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Transport Chain ({totalDistance.toLocaleString()} km)</Label>
+        <Button variant="outline" size="sm" onClick={addLeg} className="gap-1">
+          <Plus className="h-3 w-3" />
+          Add Leg
+        </Button>
+      </div>
+
+      {legs.length === 0 && (
+        <p className="text-xs text-muted-foreground">No transport legs — material is used where it is produced.</p>
+      )}
+
+      {legs.map((leg, index) => {
+        const profile = transportModes[leg.mode];
+        const error = errors[`transportLegs.${index}`];
+
+        return (
+          <Card key={leg.id} className="p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+              <Input
+                value={leg.label}
+                onChange={(event) => updateLeg(index, { label: event.target.value })}
+                className="h-8"
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveLeg(index, -1)} disabled={index === 0}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => moveLeg(index, 1)}
+                disabled={index === legs.length - 1}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeLeg(index)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              <Select
+                value={leg.mode}
+                onValueChange={(value) => {
+                  const mode = value as TransportMode;
+                  updateLeg(index, { mode, fuel: resolveTransportFuel(mode, leg.fuel) });
+                }}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(transportModes).map(([mode, modeProfile]) => (
+                    <SelectItem key={mode} value={mode}>
+                      {modeIcons[mode as TransportMode]} {modeProfile.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={resolveTransportFuel(leg.mode, leg.fuel)}
+                onValueChange={(value) => updateLeg(index, { fuel: value as TransportFuel })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(profile.fuels).map((fuel) => (
+                    <SelectItem key={fuel} value={fuel}>
+                      {transportFuelLabels[fuel as TransportFuel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  min={0}
+                  value={leg.distance}
+                  onChange={(event) => updateLeg(index, { distance: Number(event.target.value) })}
+                  className="h-8"
+                />
+                <span className="text-xs text-muted-foreground">km</span>
+              </div>
+
+              <div className="flex items-center gap-1" title="Load factor">
+                <Input
+                  type="number"
+                  min={5}
+                  max={100}
+                  value={Math.round((leg.loadFactor ?? profile.referenceLoadFactor) * 100)}
+                  onChange={(event) => updateLeg(index, { loadFactor: Number(event.target.value) / 100 })}
+                  className="h-8"
+                />
+                <span className="text-xs text-muted-foreground">% load</span>
+              </div>
+
+              <div className="flex items-center gap-1" title="Share of return trips run empty">
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round((leg.emptyBackhaul ?? 0) * 100)}
+                  onChange={(event) => updateLeg(index, { emptyBackhaul: Number(event.target.value) / 100 })}
+                  className="h-8"
+                />
+                <span className="text-xs text-muted-foreground">% empty</span>
+              </div>
+            </div>
+
+            {error && <p className="text-destructive text-xs">{error}</p>}
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Bar, BarChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { SERVICE_ENGINE_RUNS } from "@/hooks/use-job";
+import { formatScore, getImpactDisplay } from "@/lib/lca/display";
+import type { ImpactCategoryId, ImpactKey, MonteCarloResult, UncertaintySummary } from "@/lib/lca/types";
+import { AlertTriangle, Dices, Square } from "lucide-react";
+
+interface UncertaintyPanelProps {
+  result?: MonteCarloResult;
+  enabledCategories: ImpactCategoryId[];
+  isRunning: boolean;
+  completed: number;
+  iterations: number;
+  error?: string; // why the inputs could not be run
+  onRun: (iterations: number, usePedigree: boolean) => void;
+  onCancel: () => void;
+}
+
+const iterationOptions = [500, 1000, 5000, 10000];
+
+const chartConfig = {
+  count: { label: "Iterations", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const UncertaintyHistogram = ({ impact, summary }: { impact: ImpactKey; summary: UncertaintySummary }) => {
+  const { label, unit, scale } = getImpactDisplay(impact);
+  const data = summary.histogram.map((bin) => ({
+    value: formatScore(((bin.from + bin.to) / 2) * scale),
+    count: bin.count,
+  }));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2 text-sm">
+        <span className="font-medium truncate">{label}</span>
+        <span className="text-xs text-muted-foreground whitespace-nowrap">{unit}</span>
+      </div>
+      <ChartContainer config={chartConfig} className="aspect-auto h-28 w-full">
+        <BarChart data={data} margin={{ left: 0, right: 0, top: 4, bottom: 0 }}>
+          <XAxis dataKey="value" tickLine={false} axisLine={false} minTickGap={24} fontSize={10} />
+          <YAxis hide />
+          <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+          <Bar dataKey="count" fill="var(--color-count)" radius={2} />
+        </BarChart>
+      </ChartContainer>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>P5 {formatScore(summary.p5 * scale)}</span>
+        <span className="font-medium text-foreground">Median {formatScore(summary.median * scale)}</span>
+        <span>P95 {formatScore(summary.p95 * scale)}</span>
+      </div>
+    </div>
+  );
+};
+
+export const UncertaintyPanel = ({
+  result,
+  enabledCategories,
+  isRunning,
+  completed,
+  iterations,
+  error,
+  onRun,
+  onCancel,
+}: UncertaintyPanelProps) => {
+  const [iterationCount, setIterationCount] = useState(1000);
+  const [usePedigree, setUsePedigree] = useState(false);
+  const impacts: ImpactKey[] = ["co2", "energy", "water", ...enabledCategories];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={String(iterationCount)} onValueChange={(value) => setIterationCount(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {iterationOptions.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option.toLocaleString()} iterations
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isRunning ? (
+          <Button variant="outline" onClick={onCancel} className="gap-2">
+            <Square className="h-4 w-4" />
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={() => onRun(iterationCount, usePedigree)} className="gap-2">
+            <Dices className="h-4 w-4" />
+            Run Monte Carlo
+          </Button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Switch id="pedigree-widening" checked={usePedigree} onCheckedChange={setUsePedigree} />
+        <Label htmlFor="pedigree-widening" className="font-normal">
+          Widen distributions by the factors' pedigree scores
+        </Label>
+      </div>
+
+      {isRunning && (
+        <div className="space-y-1">
+          <Progress value={(completed / Math.max(1, iterations)) * 100} className="h-2" />
+          <div className="text-xs text-muted-foreground">
+            {completed.toLocaleString()} / {iterations.toLocaleString()} iterations
+            {iterations >= SERVICE_ENGINE_RUNS && " · running on the LCA service"}
+          </div>
+        </div>
+      )}
+
+      {result ? (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {impacts.map((impact) => (
+              <UncertaintyHistogram key={impact} impact={impact} summary={result.impacts[impact]} />
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            {result.iterations.toLocaleString()} iterations · seed {result.seed}
+            {result.pedigreeWidened && " · pedigree-widened"} · ranges are the 5th–95th percentiles
+          </div>
+        </>
+      ) : error ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+          <span>{error}</span>
+        </div>
+      ) : (
+        !isRunning && (
+          <div className="text-sm text-muted-foreground">
+            Sample the emission factors from their distributions to see how certain these results are.
+          </div>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,75 +1,77 @@
-import { useState } from "react";
-import { Button } from "@/components/ui/button";
+import { useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
-import { LCAInputs } from "./LCADashboard";
-import { HelpCircle, Loader2, Play } from "lucide-react";
-import { toast } from "@/hooks/use-toast";
+import { allocationMethods } from "@/lib/lca/allocation";
+import { metalIds, metals } from "@/lib/lca/metals";
+import {
+  factorDatabases,
+  getFactorDatabase,
+  LATEST_FACTOR_DATABASE,
+  LOCAL_FACTOR_DATABASE,
+} from "@/lib/lca/factor-database";
+import { alloys, getAlloysForMetal, getComposition, getElement, type AlloyId } from "@/lib/lca/alloys";
+import { defaultCircularityParameters, getDefaultAllocationParameters } from "@/lib/lca/engine";
+import { lcaInputsSchema } from "@/lib/lca/schemas";
+import { getPathwayYears, interpolatePathway, PATHWAY_BASE_YEAR, pathwayIds, pathways } from "@/lib/lca/pathways";
+import type { AllocationMethod, AllocationParameters, CircularityParameters, LCAInputs } from "@/lib/lca/types";
+import { TransportLegsEditor } from "./TransportLegsEditor";
+import { EnergyMixEditor } from "./EnergyMixEditor";
+import { ProcessStageEditor } from "./ProcessStageEditor";
+import { AlertTriangle, CheckCircle, HelpCircle, Loader2 } from "lucide-react";
+import { useFactorLibrary } from "@/hooks/use-factor-library";
 
 interface UserInputModuleProps {
   inputs: LCAInputs;
   onChange: (inputs: LCAInputs) => void;
-  onRunLCA: () => void;
-  isLoading: boolean;
+  isCalculating: boolean; // a recalculation of the edited inputs is pending
 }
 
-const metalPresets = {
-  aluminum: { color: "bg-slate-500", label: "Aluminum (Al)" },
-  copper: { color: "bg-orange-500", label: "Copper (Cu)" },
-};
+const circularitySliders: {
+  key: keyof CircularityParameters;
+  label: string;
+  format: (value: number) => string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: "collectionRate", label: "Collection for Recycling", format: (v) => `${v}%`, min: 0, max: 100, step: 1 },
+  { key: "lifetimeRatio", label: "Lifetime vs. Average", format: (v) => `${v.toFixed(1)}×`, min: 0.5, max: 3, step: 0.1 },
+  { key: "usageIntensityRatio", label: "Use Intensity vs. Average", format: (v) => `${v.toFixed(1)}×`, min: 0.5, max: 3, step: 0.1 },
+];
 
-const energyPresets = {
-  coal: { emissions: "High", color: "bg-linear" },
-  grid: { emissions: "Medium", color: "bg-warning" },
-  renewables: { emissions: "Low", color: "bg-circular" },
-};
+// PEF restricts A to 0.2–0.8
+const cffSliders: { key: Exclude<keyof AllocationParameters, "r1">; label: string; min: number; max: number }[] = [
+  { key: "a", label: "Allocation factor A", min: 0.2, max: 0.8 },
+  { key: "r2", label: "End-of-life recycling rate R2", min: 0, max: 1 },
+  { key: "qsQp", label: "Quality ratio Qs/Qp", min: 0, max: 1 },
+];
 
-export const UserInputModule = ({ inputs, onChange, onRunLCA, isLoading }: UserInputModuleProps) => {
-  const [errors, setErrors] = useState<Record<string, string>>({});
+export const UserInputModule = ({ inputs, onChange, isCalculating }: UserInputModuleProps) => {
+  const { library } = useFactorLibrary();
 
-  const validateInputs = () => {
+  // Checked as the inputs change, with the same rules the LCA service applies;
+  // errors are keyed by field, and by leg for transport
+  const errors = useMemo(() => {
     const newErrors: Record<string, string> = {};
-    
-    if (inputs.quantity <= 0) {
-      newErrors.quantity = "Quantity must be greater than 0";
-    }
-    if (inputs.transportDistance < 0) {
-      newErrors.transportDistance = "Distance cannot be negative";
-    }
-    if (inputs.transportDistance > 10000) {
-      newErrors.transportDistance = "Distance seems unrealistic (>10,000 km)";
-    }
-    
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
-  };
-
-  const handleSubmit = () => {
-    if (validateInputs()) {
-      onRunLCA();
-      toast({
-        title: "LCA Analysis Started",
-        description: "Running life cycle assessment with current parameters...",
-      });
-    } else {
-      toast({
-        title: "Validation Error",
-        description: "Please fix the input errors before running the analysis.",
-        variant: "destructive",
+    const parsed = lcaInputsSchema.safeParse(inputs);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(({ path, message }) => {
+        const key = path[0] === "transportLegs" ? `transportLegs.${path[1]}` : String(path[0]);
+        if (!newErrors[key]) newErrors[key] = message;
       });
     }
-  };
+    return newErrors;
+  }, [inputs]);
+
+  const allocationDefaults = getDefaultAllocationParameters(inputs);
+  const availableAlloys = getAlloysForMetal(inputs.metal);
 
   const updateInput = <K extends keyof LCAInputs>(key: K, value: LCAInputs[K]) => {
     onChange({ ...inputs, [key]: value });
-    // Clear error when user fixes it
-    if (errors[key]) {
-      setErrors({ ...errors, [key]: "" });
-    }
   };
 
   return (
@@ -88,115 +90,133 @@ export const UserInputModule = ({ inputs, onChange, onRunLCA, isLoading }: UserI
               </TooltipContent>
             </Tooltip>
           </div>
-          <div className="flex gap-2">
-            {Object.entries(metalPresets).map(([key, preset]) => (
-              <Card
-                key={key}
-                className={`p-3 cursor-pointer transition-all ${
-                  inputs.metal === key 
-                    ? "border-primary shadow-glow" 
-                    : "border-border hover:border-primary/50"
-                }`}
-                onClick={() => updateInput("metal", key as "aluminum" | "copper")}
-              >
-                <div className="flex items-center gap-2">
-                  <div className={`w-3 h-3 rounded-full ${preset.color}`} />
-                  <span className="text-sm font-medium">{preset.label}</span>
-                </div>
-              </Card>
-            ))}
-          </div>
-        </div>
-
-        {/* Material Source */}
-        <div className="space-y-2">
-          <Label htmlFor="materialSource">Material Source</Label>
-          <Select
-            value={inputs.materialSource}
-            onValueChange={(value) => updateInput("materialSource", value as "primary" | "recycled")}
-          >
-            <SelectTrigger>
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="primary">
-                <div className="flex items-center gap-2">
-                  Primary (Virgin)
-                  <Badge variant="outline" className="text-linear border-linear">High Impact</Badge>
-                </div>
-              </SelectItem>
-              <SelectItem value="recycled">
-                <div className="flex items-center gap-2">
-                  Recycled
-                  <Badge variant="outline" className="text-circular border-circular">Low Impact</Badge>
-                </div>
-              </SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
-
-        {/* Energy Source */}
-        <div className="space-y-2">
-          <Label htmlFor="energySource">Energy Source</Label>
-          <Select
-            value={inputs.energySource}
-            onValueChange={(value) => updateInput("energySource", value as "coal" | "grid" | "renewables")}
-          >
-            <SelectTrigger>
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {Object.entries(energyPresets).map(([key, preset]) => (
-                <SelectItem key={key} value={key}>
+          <div className="flex flex-wrap gap-2">
+            {metalIds.map((id) => {
+              const metal = metals[id];
+              return (
+                <Card
+                  key={id}
+                  className={`p-3 cursor-pointer transition-all ${
+                    inputs.metal === id 
+                      ? "border-primary shadow-glow" 
+                      : "border-border hover:border-primary/50"
+                  }`}
+                  onClick={() => onChange({ ...inputs, metal: id, alloy: undefined })}
+                >
                   <div className="flex items-center gap-2">
-                    <div className={`w-2 h-2 rounded-full ${preset.color}`} />
-                    {key.charAt(0).toUpperCase() + key.slice(1)}
-                    <Badge variant="outline" className="text-xs">
-                      {preset.emissions} CO₂
-                    </Badge>
+                    <div className={`w-3 h-3 rounded-full ${metal.color}`} />
+                    <span className="text-sm font-medium">
+                      {metal.label} ({metal.symbol})
+                    </span>
                   </div>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
+                </Card>
+              );
+            })}
+          </div>
         </div>
 
-        {/* Transport */}
-        <div className="grid grid-cols-2 gap-4">
+        {/* Alloy */}
+        {availableAlloys.length > 0 && (
           <div className="space-y-2">
-            <Label htmlFor="transportMode">Transport Mode</Label>
+            <Label htmlFor="alloy">Alloy</Label>
             <Select
-              value={inputs.transportMode}
-              onValueChange={(value) => updateInput("transportMode", value as "truck" | "rail" | "ship")}
+              value={inputs.alloy ?? "pure"}
+              onValueChange={(value) => updateInput("alloy", value === "pure" ? undefined : (value as AlloyId))}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="truck">🚛 Truck</SelectItem>
-                <SelectItem value="rail">🚂 Rail</SelectItem>
-                <SelectItem value="ship">🚢 Ship</SelectItem>
+                <SelectItem value="pure">Unalloyed {metals[inputs.metal].label}</SelectItem>
+                {availableAlloys.map((id) => (
+                  <SelectItem key={id} value={id}>
+                    {alloys[id].label}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            <div className="flex flex-wrap gap-1">
+              {getComposition(inputs.metal, inputs.alloy).map(({ element, fraction }) => (
+                <Badge key={element} variant="outline" className="text-xs">
+                  {getElement(element).symbol} {(fraction * 100).toFixed(fraction < 0.01 ? 2 : 1)}%
+                </Badge>
+              ))}
+            </div>
           </div>
+        )}
 
-          <div className="space-y-2">
-            <Label htmlFor="transportDistance">
-              Distance ({inputs.transportDistance} km)
-              {errors.transportDistance && (
-                <span className="text-destructive text-xs ml-2">{errors.transportDistance}</span>
-              )}
+        {/* Recycled Content */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="recycledContent">Recycled Content ({inputs.recycledContent}%)</Label>
+            <Badge
+              variant="outline"
+              className={inputs.recycledContent >= 50 ? "text-circular border-circular" : "text-linear border-linear"}
+            >
+              {inputs.recycledContent >= 50 ? "Low Impact" : "High Impact"}
+            </Badge>
+          </div>
+          <Slider
+            value={[inputs.recycledContent]}
+            onValueChange={([value]) => updateInput("recycledContent", value)}
+            max={100}
+            step={1}
+            className="w-full"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="postConsumerShare">
+              Post-consumer Share of Scrap ({inputs.postConsumerShare}%)
             </Label>
-            <Slider
-              value={[inputs.transportDistance]}
-              onValueChange={([value]) => updateInput("transportDistance", value)}
-              max={5000}
-              step={50}
-              className="w-full"
-            />
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-4 w-4 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Pre-consumer scrap is process offcuts; post-consumer scrap comes from end-of-life products</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Slider
+            value={[inputs.postConsumerShare]}
+            onValueChange={([value]) => updateInput("postConsumerShare", value)}
+            max={100}
+            step={1}
+            disabled={inputs.recycledContent === 0}
+            className="w-full"
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>Pre-consumer {Math.round(inputs.recycledContent * (1 - inputs.postConsumerShare / 100))}%</span>
+            <span>Post-consumer {Math.round((inputs.recycledContent * inputs.postConsumerShare) / 100)}%</span>
           </div>
         </div>
 
+        {/* Energy Mix */}
+        <EnergyMixEditor
+          mix={inputs.energyMix}
+          gridRegion={inputs.gridRegion}
+          factorDatabase={inputs.factorDatabase}
+          onChange={(mix) => updateInput("energyMix", mix)}
+          onGridRegionChange={(region) => updateInput("gridRegion", region)}
+          error={errors.energyMix}
+        />
+
+        {/* Process Stages */}
+        <ProcessStageEditor
+          metal={inputs.metal}
+          overrides={inputs.stageParameters}
+          onChange={(overrides) => updateInput("stageParameters", overrides)}
+        />
+
+        {/* Transport */}
+        <TransportLegsEditor
+          legs={inputs.transportLegs}
+          onChange={(legs) => onChange({ ...inputs, transportLegs: legs })}
+          errors={errors}
+        />
+
         {/* Quantity */}
         <div className="space-y-2">
           <Label htmlFor="quantity">
@@ -242,25 +262,196 @@ export const UserInputModule = ({ inputs, onChange, onRunLCA, isLoading }: UserI
           </Select>
         </div>
 
-        {/* Run Analysis Button */}
-        <Button
-          onClick={handleSubmit}
-          disabled={isLoading}
-          className="w-full bg-gradient-primary hover:shadow-glow transition-all"
-          size="lg"
-        >
-          {isLoading ? (
+        {/* Circularity Parameters */}
+        <Card className="p-3 space-y-3">
+          <Label>Circularity Parameters</Label>
+          {circularitySliders.map(({ key, label, format, min, max, step }) => {
+            const value = inputs.circularityParameters?.[key] ?? defaultCircularityParameters[key];
+            if (key === "collectionRate" && inputs.endOfLife !== "recycling") return null;
+            return (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs">
+                  {label} ({format(value)})
+                </Label>
+                <Slider
+                  value={[value]}
+                  onValueChange={([next]) =>
+                    updateInput("circularityParameters", { ...inputs.circularityParameters, [key]: next })
+                  }
+                  min={min}
+                  max={max}
+                  step={step}
+                  className="w-full"
+                />
+              </div>
+            );
+          })}
+        </Card>
+
+        {/* Allocation Method */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="allocationMethod">Recycling Allocation</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-4 w-4 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{allocationMethods[inputs.allocationMethod].description}</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={inputs.allocationMethod}
+            onValueChange={(value) => updateInput("allocationMethod", value as AllocationMethod)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(allocationMethods).map(([method, { label }]) => (
+                <SelectItem key={method} value={method}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {inputs.allocationMethod === "cff" && (
+            <Card className="p-3 space-y-3">
+              <div className="text-xs text-muted-foreground">
+                R1 = {Math.round(allocationDefaults.r1 * 100)}% (from recycled content)
+              </div>
+              {cffSliders.map(({ key, label, min, max }) => {
+                const value = inputs.cffParameters?.[key] ?? allocationDefaults[key];
+                return (
+                  <div key={key} className="space-y-1">
+                    <Label className="text-xs">
+                      {label} ({value.toFixed(2)})
+                    </Label>
+                    <Slider
+                      value={[value * 100]}
+                      onValueChange={([next]) =>
+                        updateInput("cffParameters", { ...inputs.cffParameters, [key]: next / 100 })
+                      }
+                      min={min * 100}
+                      max={max * 100}
+                      step={1}
+                      className="w-full"
+                    />
+                  </div>
+                );
+              })}
+            </Card>
+          )}
+        </div>
+
+        {/* Factor Database */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="factorDatabase">Factor Database</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-4 w-4 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>New studies use the latest release with your factor library; pick a release to reproduce an older study</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={inputs.factorDatabase ?? LOCAL_FACTOR_DATABASE}
+            onValueChange={(value) => updateInput("factorDatabase", value === LOCAL_FACTOR_DATABASE ? undefined : value)}
+          >
+            <SelectTrigger id="factorDatabase">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={LOCAL_FACTOR_DATABASE}>
+                <div className="flex items-center gap-2">
+                  {LATEST_FACTOR_DATABASE} + factor library
+                  <span className="text-xs text-muted-foreground">
+                    {library.factors.length} local factor{library.factors.length === 1 ? "" : "s"}
+                  </span>
+                </div>
+              </SelectItem>
+              {factorDatabases.map(({ version, released }) => (
+                <SelectItem key={version} value={version}>
+                  <div className="flex items-center gap-2">
+                    {version}
+                    <span className="text-xs text-muted-foreground">released {released}</span>
+                    {version === LATEST_FACTOR_DATABASE && <Badge variant="outline">Latest</Badge>}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="text-xs text-muted-foreground">{getFactorDatabase(inputs.factorDatabase).notes}</div>
+        </div>
+
+        {/* Target Year */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="targetYear">Target Year</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-4 w-4 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Project the scenario to a future year along the bundled decarbonisation pathways</p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={String(inputs.targetYear ?? PATHWAY_BASE_YEAR)}
+            onValueChange={(value) =>
+              updateInput("targetYear", Number(value) === PATHWAY_BASE_YEAR ? undefined : Number(value))
+            }
+          >
+            <SelectTrigger id="targetYear">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {getPathwayYears().map((year) => (
+                <SelectItem key={year} value={String(year)}>
+                  {year === PATHWAY_BASE_YEAR ? `${year} (today)` : year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {inputs.targetYear !== undefined && (
+            <div className="text-xs text-muted-foreground">
+              {pathwayIds
+                .map((id) => {
+                  const value = interpolatePathway(id, inputs.targetYear!);
+                  return `${pathways[id].label} ${pathways[id].unit === "share" ? `${Math.round(value * 100)}%` : `×${value.toFixed(2)}`}`;
+                })
+                .join(" · ")}
+            </div>
+          )}
+        </div>
+
+        {/* Live Calculation Status */}
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {Object.keys(errors).length > 0 ? (
+            <>
+              <AlertTriangle className="h-3 w-3 text-destructive shrink-0" />
+              <span>
+                These inputs are not calculated until they are fixed: {Object.values(errors).join("; ")}
+              </span>
+            </>
+          ) : isCalculating ? (
             <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Running Analysis...
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Updating results...
             </>
           ) : (
             <>
-              <Play className="mr-2 h-4 w-4" />
-              Run LCA Analysis
+              <CheckCircle className="h-3 w-3 text-circular" />
+              Results update as you edit.
             </>
           )}
-        </Button>
+        </div>
       </div>
     </TooltipProvider>
   );
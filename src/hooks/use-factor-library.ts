@@ -0,0 +1,65 @@
+import * as React from "react";
+import { toast } from "@/hooks/use-toast";
+import {
+  getFactorLibrary,
+  saveLibraryFactor,
+  setFactorLibrary,
+  subscribeToFactorLibrary,
+} from "@/lib/lca/factor-library";
+import { factorLibrarySchema } from "@/lib/lca/schemas";
+import { mergeFactorImport, type FactorImportOptions, type ImportRow } from "@/lib/lca/factor-import";
+import type { EmissionFactor, FactorAuditAction, FactorLibrary } from "@/lib/lca/types";
+
+const STORAGE_KEY = "lca.factorLibrary";
+const AUTHOR_KEY = "lca.factorLibrary.author";
+
+// Shown once the toaster mounts; the next saved change replaces the unreadable copy
+const reportUnreadableLibrary = () =>
+  toast({
+    title: "Saved Factor Library Ignored",
+    description: "The factor library stored in this browser could not be read, so the bundled factors are in use.",
+    variant: "destructive",
+  });
+
+const readStoredLibrary = (): FactorLibrary | undefined => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return undefined;
+    const parsed = factorLibrarySchema.safeParse(JSON.parse(stored));
+    if (parsed.success) return parsed.data as FactorLibrary;
+  } catch {
+    // Not JSON; reported below like a library that fails the schema
+  }
+  reportUnreadableLibrary();
+  return undefined;
+};
+
+// Loaded as soon as anything imports the hook, before the first calculation runs
+const storedLibrary = readStoredLibrary();
+if (storedLibrary) setFactorLibrary(storedLibrary);
+subscribeToFactorLibrary(() => localStorage.setItem(STORAGE_KEY, JSON.stringify(getFactorLibrary())));
+
+export function useFactorLibrary() {
+  const library = React.useSyncExternalStore(subscribeToFactorLibrary, getFactorLibrary);
+  const [author, setAuthorState] = React.useState(() => localStorage.getItem(AUTHOR_KEY) ?? "");
+
+  const setAuthor = React.useCallback((name: string) => {
+    localStorage.setItem(AUTHOR_KEY, name);
+    setAuthorState(name);
+  }, []);
+
+  const save = React.useCallback(
+    (factor: EmissionFactor, change: { action: FactorAuditAction; author: string; reason: string; previous?: EmissionFactor }) => {
+      setFactorLibrary(saveLibraryFactor(getFactorLibrary(), factor, change));
+    },
+    [],
+  );
+
+  const importFactors = React.useCallback((rows: ImportRow[], options: FactorImportOptions) => {
+    const { library: next, report } = mergeFactorImport(getFactorLibrary(), rows, options);
+    setFactorLibrary(next);
+    return report;
+  }, []);
+
+  return { library, author, setAuthor, save, importFactors };
+}
@@ -0,0 +1,78 @@
+import * as React from "react";
+import { cancelJob, getJob, submitJob } from "@/lib/api";
+import type { Job, JobKind, JobRequest, JobResults } from "@/lib/api-contract";
+
+const POLL_INTERVAL_MS = 250;
+
+// Analyses needing at least this many engine runs are queued on the LCA service; shorter
+// ones finish sooner in a browser worker than a job takes to be polled
+export const SERVICE_ENGINE_RUNS = 2000;
+
+interface JobHandle {
+  id?: string; // once the service has accepted the job
+  cancelled: boolean;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Follows one job on the LCA service at a time: starting another, cancelling or
+ * unmounting stops the current one on the service as well.
+ */
+export function useJob() {
+  const [job, setJob] = React.useState<Job>(); // as last polled
+  const [isRunning, setIsRunning] = React.useState(false);
+  const current = React.useRef<JobHandle>();
+
+  const cancel = React.useCallback(() => {
+    const handle = current.current;
+    if (!handle) return;
+    handle.cancelled = true;
+    current.current = undefined;
+    setJob(undefined);
+    setIsRunning(false);
+    // Nothing more to do when the job has already finished or expired
+    if (handle.id) cancelJob(handle.id).catch(() => undefined);
+  }, []);
+
+  React.useEffect(() => cancel, [cancel]);
+
+  /** Resolves with the job's result, or undefined when it was cancelled. Throws when it failed. */
+  const run = React.useCallback(
+    async <K extends JobKind>(request: JobRequest<K>): Promise<JobResults[K] | undefined> => {
+      cancel();
+      const handle: JobHandle = { cancelled: false };
+      current.current = handle;
+      setIsRunning(true);
+
+      try {
+        let latest = await submitJob(request as JobRequest);
+        handle.id = latest.id;
+        if (handle.cancelled) {
+          cancelJob(latest.id).catch(() => undefined);
+          return undefined;
+        }
+        for (;;) {
+          setJob(latest);
+          if (latest.state === "done") return latest.result as JobResults[K];
+          if (latest.state === "failed") throw new Error(latest.error);
+          // Our own cancels stop polling before this; someone else stopped the job
+          if (latest.state === "cancelled") throw new Error("The job was cancelled on the LCA service");
+          await wait(POLL_INTERVAL_MS);
+          if (handle.cancelled) return undefined;
+          latest = await getJob(latest.id);
+          if (handle.cancelled) return undefined;
+        }
+      } finally {
+        if (current.current === handle) {
+          current.current = undefined;
+          setJob(undefined);
+          setIsRunning(false);
+        }
+      }
+    },
+    [cancel],
+  );
+
+  return { job, isRunning, run, cancel };
+}
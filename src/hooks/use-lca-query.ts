@@ -0,0 +1,122 @@
+import * as React from "react";
+import { useQueries, useQueryClient } from "@tanstack/react-query";
+import { describeApiError, toApiIssues } from "@/lib/api-contract";
+import { getFactorLibrary, subscribeToFactorLibrary } from "@/lib/lca/factor-library";
+import { hashInputs } from "@/lib/lca/hash";
+import { lcaInputsSchema } from "@/lib/lca/schemas";
+import type { LCAInputs } from "@/lib/lca/types";
+import type { LCAWorkerKind, LCAWorkerMessage, LCAWorkerRequest, LCAWorkerResults } from "@/workers/lca.worker";
+
+// Long enough for a slider drag to settle, short enough to feel immediate
+const LIVE_DEBOUNCE_MS = 100;
+
+export const lcaQueryKeys = {
+  all: ["lca"] as const,
+  kind: (kind: LCAWorkerKind) => ["lca", kind] as const,
+  value: (kind: LCAWorkerKind, inputs: LCAInputs) => ["lca", kind, hashInputs(inputs)] as const,
+};
+
+// One worker serves every live calculation for the page's lifetime
+let worker: Worker | undefined;
+let requestCounter = 0;
+const pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+
+const getWorker = () => {
+  if (worker) return worker;
+  const created = new Worker(new URL("../workers/lca.worker.ts", import.meta.url), { type: "module" });
+  created.onmessage = ({ data }: MessageEvent<LCAWorkerMessage>) => {
+    const request = pending.get(data.id);
+    pending.delete(data.id);
+    if (data.type === "done") request?.resolve(data.value);
+    else request?.reject(new Error(data.message));
+  };
+  created.onerror = () => {
+    pending.forEach(({ reject }) => reject(new Error("The calculation worker stopped")));
+    pending.clear();
+    // A fresh worker is started for the next calculation
+    created.terminate();
+    worker = undefined;
+  };
+  worker = created;
+  return worker;
+};
+
+// Inputs are checked with the LCA service's rules first, so invalid inputs are never calculated.
+// The library is read when the calculation is queued, so a refetch after a factor edit uses the new factors.
+const calculateInWorker = <K extends LCAWorkerKind>(kind: K, inputs: LCAInputs) =>
+  new Promise<LCAWorkerResults[K]>((resolve, reject) => {
+    const parsed = lcaInputsSchema.safeParse(inputs);
+    if (!parsed.success) {
+      reject(new Error(describeApiError({ error: "The inputs are invalid", issues: toApiIssues(parsed.error) })));
+      return;
+    }
+    requestCounter += 1;
+    pending.set(requestCounter, { resolve, reject });
+    const request: LCAWorkerRequest = { id: requestCounter, kind, inputs, library: getFactorLibrary() };
+    getWorker().postMessage(request);
+  });
+
+export interface LiveLCAValues<T> {
+  values: (T | undefined)[]; // the last good value of each scenario, until its first arrives
+  isStale: boolean[]; // the value shown is not yet the one for the current inputs and factors
+  errors: (string | undefined)[]; // why the current inputs could not be calculated
+  isCalculating: boolean;
+}
+
+/**
+ * Calculates every scenario in a Web Worker once the inputs stop changing, caching
+ * by input hash until the factor data changes. A scenario keeps its last good
+ * value, flagged as stale, until the new one arrives, and keeps it with an error
+ * when its inputs are invalid or the worker fails.
+ */
+function useLiveCalculation<K extends LCAWorkerKind>(kind: K, inputsList: LCAInputs[]): LiveLCAValues<LCAWorkerResults[K]> {
+  const queryClient = useQueryClient();
+  const [settledInputs, setSettledInputs] = React.useState(inputsList);
+  const shown = React.useRef<(LCAWorkerResults[K] | undefined)[]>([]);
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setSettledInputs(inputsList), LIVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [inputsList]);
+
+  React.useEffect(
+    () => subscribeToFactorLibrary(() => void queryClient.invalidateQueries({ queryKey: lcaQueryKeys.kind(kind) })),
+    [queryClient, kind],
+  );
+
+  const queries = useQueries({
+    queries: settledInputs.map((inputs) => ({
+      queryKey: lcaQueryKeys.value(kind, inputs),
+      queryFn: () => calculateInWorker(kind, inputs),
+      // The engine is deterministic: only a factor change makes a value stale
+      staleTime: Infinity,
+      retry: false,
+    })),
+  });
+
+  // Inputs calculated before (an undone edit, a copied scenario) are answered from the cache at once
+  const states = inputsList.map((inputs) =>
+    queryClient.getQueryState<LCAWorkerResults[K], Error>(lcaQueryKeys.value(kind, inputs)),
+  );
+  const values = states.map((state, index) => state?.data ?? shown.current[index]);
+  shown.current = values;
+
+  return {
+    values,
+    isStale: states.map((state) => state?.status !== "success" || state.isInvalidated),
+    errors: states.map((state) => (state?.status === "error" ? state.error.message : undefined)),
+    isCalculating: settledInputs !== inputsList || queries.some(({ isFetching }) => isFetching),
+  };
+}
+
+/** Every scenario's LCA result, recalculated live as its inputs change. */
+export function useLiveLCAResults(inputsList: LCAInputs[]) {
+  const { values, ...state } = useLiveCalculation("result", inputsList);
+  return { results: values, ...state };
+}
+
+/** Every scenario's CO₂ footprint in each pathway year, recalculated live as its inputs change. */
+export function useFootprintTrajectories(inputsList: LCAInputs[]) {
+  const { values, ...state } = useLiveCalculation("trajectory", inputsList);
+  return { trajectories: values, ...state };
+}
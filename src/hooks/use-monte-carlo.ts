@@ -0,0 +1,99 @@
+import * as React from "react";
+import { SERVICE_ENGINE_RUNS, useJob } from "@/hooks/use-job";
+import { toast } from "@/hooks/use-toast";
+import { describeApiError, toApiIssues } from "@/lib/api-contract";
+import { getFactorLibrary } from "@/lib/lca/factor-library";
+import { lcaInputsSchema } from "@/lib/lca/schemas";
+import type { FactorLibrary, LCAInputs, MonteCarloResult } from "@/lib/lca/types";
+import type { MonteCarloMessage, MonteCarloRequest } from "@/workers/monte-carlo.worker";
+
+interface MonteCarloState {
+  inputs?: LCAInputs; // the inputs the current result or run belongs to
+  library?: FactorLibrary; // and the factor library it read
+  result?: MonteCarloResult;
+  completed: number;
+  iterations: number;
+  isRunning: boolean;
+  error?: string; // why the inputs could not be run
+}
+
+/** Runs Monte Carlo in a worker, or as a job on the LCA service when the run is large. */
+export function useMonteCarlo() {
+  const workerRef = React.useRef<Worker>();
+  const job = useJob();
+  const { run: runJob, cancel: cancelJob } = job;
+  const [state, setState] = React.useState<MonteCarloState>({ completed: 0, iterations: 0, isRunning: false });
+
+  const stopWorker = React.useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = undefined;
+  }, []);
+
+  const cancel = React.useCallback(() => {
+    stopWorker();
+    cancelJob();
+    setState((current) => ({ ...current, isRunning: false }));
+  }, [stopWorker, cancelJob]);
+
+  const run = React.useCallback(
+    (inputs: LCAInputs, iterations: number, usePedigree = false) => {
+      // Only one run at a time; a new request replaces the old one
+      stopWorker();
+      const library = getFactorLibrary();
+      // Inputs are checked with the LCA service's rules first, as for the live calculation
+      const parsed = lcaInputsSchema.safeParse(inputs);
+      if (!parsed.success) {
+        cancelJob();
+        const error = describeApiError({ error: "The inputs are invalid", issues: toApiIssues(parsed.error) });
+        setState({ inputs, library, completed: 0, iterations, isRunning: false, error });
+        return;
+      }
+      const request: MonteCarloRequest = {
+        inputs,
+        iterations,
+        seed: Math.floor(Math.random() * 2 ** 32),
+        usePedigree,
+        library,
+      };
+      setState({ inputs, library, completed: 0, iterations, isRunning: true });
+
+      const finish = (result: MonteCarloResult) =>
+        setState({ inputs, library, result, completed: iterations, iterations, isRunning: false });
+      const fail = (message: string) => {
+        setState((current) => ({ ...current, isRunning: false }));
+        toast({ title: "Uncertainty Analysis Failed", description: message, variant: "destructive" });
+      };
+
+      if (iterations >= SERVICE_ENGINE_RUNS) {
+        // Resolves empty when cancelled or replaced, which has already updated the state
+        runJob({ kind: "monteCarlo", request }).then(
+          (result) => result && finish(result),
+          (error: Error) => fail(error.message),
+        );
+        return;
+      }
+
+      cancelJob();
+      const worker = new Worker(new URL("../workers/monte-carlo.worker.ts", import.meta.url), { type: "module" });
+      workerRef.current = worker;
+      worker.onmessage = ({ data }: MessageEvent<MonteCarloMessage>) => {
+        if (data.type === "progress") {
+          setState((current) => ({ ...current, completed: data.completed }));
+          return;
+        }
+        stopWorker();
+        if (data.type === "done") finish(data.result);
+        else fail(data.message);
+      };
+      worker.postMessage(request);
+    },
+    [stopWorker, runJob, cancelJob],
+  );
+
+  React.useEffect(() => stopWorker, [stopWorker]);
+
+  // A job reports percent progress, read back as iterations
+  const completed = job.job && state.isRunning ? Math.round((job.job.progress / 100) * state.iterations) : state.completed;
+
+  return { ...state, completed, run, cancel };
+}
@@ -0,0 +1,98 @@
+import * as React from "react";
+import { SERVICE_ENGINE_RUNS, useJob } from "@/hooks/use-job";
+import { toast } from "@/hooks/use-toast";
+import { describeApiError, toApiIssues } from "@/lib/api-contract";
+import { getFactorLibrary } from "@/lib/lca/factor-library";
+import { lcaInputsSchema } from "@/lib/lca/schemas";
+import { getSensitivityRunCount } from "@/lib/lca/sensitivity";
+import type { FactorLibrary, LCAInputs, SensitivityResult } from "@/lib/lca/types";
+import type { SensitivityMessage, SensitivityRequest } from "@/workers/sensitivity.worker";
+
+interface SensitivityState {
+  inputs?: LCAInputs; // the inputs the current result or run belongs to
+  library?: FactorLibrary; // and the factor library it read
+  result?: SensitivityResult;
+  completed: number; // engine runs
+  total: number;
+  isRunning: boolean;
+  error?: string; // why the inputs could not be run
+}
+
+/** Runs a sensitivity analysis in a worker, or as a job on the LCA service when it is large. */
+export function useSensitivity() {
+  const workerRef = React.useRef<Worker>();
+  const job = useJob();
+  const { run: runJob, cancel: cancelJob } = job;
+  const [state, setState] = React.useState<SensitivityState>({ completed: 0, total: 0, isRunning: false });
+
+  const stopWorker = React.useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = undefined;
+  }, []);
+
+  const cancel = React.useCallback(() => {
+    stopWorker();
+    cancelJob();
+    setState((current) => ({ ...current, isRunning: false }));
+  }, [stopWorker, cancelJob]);
+
+  const run = React.useCallback(
+    (request: Omit<SensitivityRequest, "library">) => {
+      // Only one run at a time; a new request replaces the old one
+      stopWorker();
+      const { inputs } = request;
+      const library = getFactorLibrary();
+      // Inputs are checked with the LCA service's rules first, as for the live calculation
+      const parsed = lcaInputsSchema.safeParse(inputs);
+      if (!parsed.success) {
+        cancelJob();
+        const error = describeApiError({ error: "The inputs are invalid", issues: toApiIssues(parsed.error) });
+        setState({ inputs, library, completed: 0, total: 0, isRunning: false, error });
+        return;
+      }
+      const message: SensitivityRequest = { ...request, library };
+      const total = getSensitivityRunCount(inputs, request.method);
+      setState({ inputs, library, completed: 0, total, isRunning: true });
+
+      const finish = (result: SensitivityResult) => {
+        const { evaluations } = result;
+        setState({ inputs, library, result, completed: evaluations, total: evaluations, isRunning: false });
+      };
+      const fail = (description: string) => {
+        setState((current) => ({ ...current, isRunning: false }));
+        toast({ title: "Sensitivity Analysis Failed", description, variant: "destructive" });
+      };
+
+      if (total >= SERVICE_ENGINE_RUNS) {
+        // Resolves empty when cancelled or replaced, which has already updated the state
+        runJob({ kind: "sensitivity", request: message }).then(
+          (result) => result && finish(result),
+          (error: Error) => fail(error.message),
+        );
+        return;
+      }
+
+      cancelJob();
+      const worker = new Worker(new URL("../workers/sensitivity.worker.ts", import.meta.url), { type: "module" });
+      workerRef.current = worker;
+      worker.onmessage = ({ data }: MessageEvent<SensitivityMessage>) => {
+        if (data.type === "progress") {
+          setState((current) => ({ ...current, completed: data.completed, total: data.total }));
+          return;
+        }
+        stopWorker();
+        if (data.type === "done") finish(data.result);
+        else fail(data.message);
+      };
+      worker.postMessage(message);
+    },
+    [stopWorker, runJob, cancelJob],
+  );
+
+  React.useEffect(() => stopWorker, [stopWorker]);
+
+  // A job reports percent progress, read back as engine runs
+  const completed = job.job && state.isRunning ? Math.round((job.job.progress / 100) * state.total) : state.completed;
+
+  return { ...state, completed, run, cancel };
+}
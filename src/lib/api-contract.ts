@@ -0,0 +1,192 @@
+import { z } from "zod";
+import {
+  factorLibrarySchema,
+  lcaInputsSchema,
+  lcaResultSchema,
+  monteCarloResultSchema,
+  sensitivityResultSchema,
+} from "@/lib/lca/schemas";
+import type {
+  FactorLibrary,
+  ImpactKey,
+  LCAInputs,
+  LCAResult,
+  MonteCarloResult,
+  ScenarioType,
+  SensitivityMethod,
+  SensitivityResult,
+} from "@/lib/lca/types";
+
+// Payloads of the LCA service. The client checks what it sends and receives, and the
+// local server checks what it is sent, against the same schemas.
+
+export interface RunLCARequest {
+  inputs: LCAInputs;
+  library?: FactorLibrary; // the analyst's factor library lives in the browser, so it travels with the run
+}
+
+export type RunLCAResponse = LCAResult;
+
+export interface ApiError {
+  error: string;
+  issues?: { path: string; message: string }[]; // each payload problem, when the request failed validation
+}
+
+export type ReportFormat = "pdf";
+
+export interface ReportRequest {
+  format: ReportFormat;
+  includeCharts: boolean;
+  includeComparison: boolean;
+  scenarios: { name: string; type: ScenarioType; result: LCAResult }[];
+  library?: FactorLibrary; // the factors the results were calculated with, for the uncertainty runs
+}
+
+export interface Report {
+  format: ReportFormat;
+  generatedAt: string; // ISO date-time
+  sections: { title: string; pages: number }[];
+  pageCount: number;
+  chartCount: number;
+  // Monte Carlo range of each scenario's CO₂ result, kg CO₂-eq for the whole quantity
+  uncertainty: { scenario: string; iterations: number; p5: number; median: number; p95: number }[];
+}
+
+export interface MonteCarloRunRequest {
+  inputs: LCAInputs;
+  iterations: number;
+  seed: number;
+  usePedigree: boolean;
+  library?: FactorLibrary;
+}
+
+export interface SensitivityRunRequest {
+  inputs: LCAInputs;
+  method: SensitivityMethod;
+  metric: ImpactKey;
+  spread: number | "range"; // only read by one-at-a-time runs
+  library?: FactorLibrary;
+}
+
+// Work that may outlast a request is submitted as a job and polled until it finishes.
+// Live results and short analyses run in the browser's workers; reports and the
+// dashboard's large Monte Carlo and Sobol runs are queued on the service.
+export interface JobRequests {
+  report: ReportRequest;
+  monteCarlo: MonteCarloRunRequest;
+  sensitivity: SensitivityRunRequest;
+}
+
+export interface JobResults {
+  report: Report;
+  monteCarlo: MonteCarloResult;
+  sensitivity: SensitivityResult;
+}
+
+export type JobKind = keyof JobRequests;
+
+// A cancelled job stays pollable, like a finished one, until it expires
+export type JobState = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type JobRequest<K extends JobKind = JobKind> = { [P in K]: { kind: P; request: JobRequests[P] } }[K];
+
+export type Job<K extends JobKind = JobKind> = {
+  [P in K]: {
+    id: string;
+    kind: P;
+    state: JobState;
+    progress: number; // percent
+    createdAt: string; // ISO date-time, as are startedAt and finishedAt
+    startedAt?: string;
+    finishedAt?: string;
+    result?: JobResults[P]; // once done
+    error?: string; // once failed
+  };
+}[K];
+
+export const runLCARequestSchema = z.object({
+  inputs: lcaInputsSchema,
+  library: factorLibrarySchema.optional(),
+});
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+export const reportRequestSchema = z.object({
+  format: z.enum(["pdf"]),
+  includeCharts: z.boolean(),
+  includeComparison: z.boolean(),
+  scenarios: z
+    .array(z.object({ name: z.string().trim().min(1), type: z.enum(["conventional", "circular"]), result: lcaResultSchema }))
+    .min(1, "Add at least one scenario to report on"),
+  library: factorLibrarySchema.optional(),
+});
+
+export const reportSchema = z.object({
+  format: z.enum(["pdf"]),
+  generatedAt: z.string().datetime(),
+  sections: z.array(z.object({ title: z.string(), pages: z.number().int().positive() })),
+  pageCount: z.number().int().nonnegative(),
+  chartCount: z.number().int().nonnegative(),
+  uncertainty: z.array(
+    z.object({
+      scenario: z.string(),
+      iterations: z.number().int().positive(),
+      p5: z.number(),
+      median: z.number(),
+      p95: z.number(),
+    }),
+  ),
+});
+
+export const monteCarloRunRequestSchema = z.object({
+  inputs: lcaInputsSchema,
+  iterations: z.number().int().positive().max(100000, "Run at most 100,000 iterations"),
+  seed: z.number().int().nonnegative(),
+  usePedigree: z.boolean(),
+  library: factorLibrarySchema.optional(),
+});
+
+export const sensitivityRunRequestSchema = z.object({
+  inputs: lcaInputsSchema,
+  method: z.enum(["oat", "morris", "sobol"]),
+  metric: sensitivityResultSchema.shape.metric,
+  spread: z.union([z.number().positive(), z.literal("range")]),
+  library: factorLibrarySchema.optional(),
+});
+
+export const jobRequestSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("report"), request: reportRequestSchema }),
+  z.object({ kind: z.literal("monteCarlo"), request: monteCarloRunRequestSchema }),
+  z.object({ kind: z.literal("sensitivity"), request: sensitivityRunRequestSchema }),
+]);
+
+const jobFields = {
+  id: z.string(),
+  state: z.enum(["queued", "running", "done", "failed", "cancelled"]),
+  progress: z.number().min(0).max(100),
+  createdAt: z.string().datetime(),
+  startedAt: z.string().datetime().optional(),
+  finishedAt: z.string().datetime().optional(),
+  error: z.string().optional(),
+};
+
+export const jobSchema = z.discriminatedUnion("kind", [
+  z.object({ ...jobFields, kind: z.literal("report"), result: reportSchema.optional() }),
+  z.object({ ...jobFields, kind: z.literal("monteCarlo"), result: monteCarloResultSchema.optional() }),
+  z.object({ ...jobFields, kind: z.literal("sensitivity"), result: sensitivityResultSchema.optional() }),
+]);
+
+/** The issues of a failed parse, each with the dotted path of the field it concerns. */
+export const toApiIssues = (error: z.ZodError): ApiError["issues"] =>
+  error.issues.map(({ path, message }) => ({ path: path.join("."), message }));
+
+/** One readable line for a toast, e.g. "inputs.quantity: Quantity must be greater than 0". */
+export const describeApiError = ({ error, issues }: ApiError, limit = 3): string => {
+  if (!issues?.length) return error;
+  const lines = issues.map(({ path, message }) => (path ? `${path}: ${message}` : message));
+  const shown = lines.length > limit ? [...lines.slice(0, limit), `and ${lines.length - limit} more`] : lines;
+  return `${error}: ${shown.join("; ")}`;
+};
@@ -0,0 +1,51 @@
+import type { z } from "zod";
+import {
+  apiErrorSchema,
+  describeApiError,
+  jobRequestSchema,
+  jobSchema,
+  toApiIssues,
+  type ApiError,
+  type Job,
+  type JobRequest,
+} from "@/lib/api-contract";
+
+// Both directions are checked so a payload mismatch fails here with the fields at fault,
+// rather than as a blank chart further down
+const callApi = async <T>(
+  method: "GET" | "POST" | "DELETE",
+  path: string,
+  responseSchema: z.ZodTypeAny,
+  body?: { payload: unknown; schema: z.ZodTypeAny },
+): Promise<T> => {
+  const request = body?.schema.safeParse(body.payload);
+  if (request && !request.success) {
+    throw new Error(describeApiError({ error: "The request is invalid", issues: toApiIssues(request.error) }));
+  }
+
+  const response = await fetch(path, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body.payload) : undefined,
+  });
+  const payload = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    const error = apiErrorSchema.safeParse(payload);
+    throw new Error(error.success ? describeApiError(error.data as ApiError) : `The LCA service answered ${response.status}`);
+  }
+
+  const result = responseSchema.safeParse(payload);
+  if (!result.success) {
+    throw new Error(describeApiError({ error: "The LCA service returned an unexpected response", issues: toApiIssues(result.error) }));
+  }
+  return result.data as T;
+};
+
+/** Queues work on the LCA service; follow it with getJob until it is done or failed. */
+export const submitJob = (request: JobRequest): Promise<Job> =>
+  callApi("POST", "/api/jobs", jobSchema, { payload: request, schema: jobRequestSchema });
+
+export const getJob = (id: string): Promise<Job> => callApi("GET", `/api/jobs/${encodeURIComponent(id)}`, jobSchema);
+
+/** Stops a queued or running job; it answers polls as cancelled from then on. */
+export const cancelJob = (id: string): Promise<Job> => callApi("DELETE", `/api/jobs/${encodeURIComponent(id)}`, jobSchema);
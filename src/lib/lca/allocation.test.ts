@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { allocateRecycling, resolveAllocationParameters, type AllocationBurdens } from "./allocation";
+import type { AllocationParameters } from "./types";
+
+const impacts = (co2: number) => ({ co2, energy: co2 * 10, water: co2 * 100 });
+
+const burdens: AllocationBurdens = {
+  virgin: impacts(10),
+  recycledInput: impacts(2),
+  recyclingEoL: impacts(1),
+  disposal: impacts(0.5),
+};
+
+const defaults: AllocationParameters = { a: 0.2, r1: 0.4, r2: 0.8, qsQp: 0.9 };
+
+describe("resolveAllocationParameters", () => {
+  it("fixes A and the quality ratio for the classic methods", () => {
+    expect(resolveAllocationParameters("cutoff", defaults)).toEqual({ ...defaults, a: 1, qsQp: 1 });
+    expect(resolveAllocationParameters("avoidedBurden", defaults)).toEqual({ ...defaults, a: 0, qsQp: 1 });
+    expect(resolveAllocationParameters("fiftyFifty", defaults)).toEqual({ ...defaults, a: 0.5, qsQp: 1 });
+  });
+
+  it("applies overrides to the CFF but keeps R1 from the scenario", () => {
+    expect(resolveAllocationParameters("cff", defaults, { a: 0.5, r1: 0.9 })).toEqual({ ...defaults, a: 0.5 });
+  });
+});
+
+describe("allocateRecycling", () => {
+  it("charges recycled input at its own burden and credits nothing under cut-off", () => {
+    const { material, endOfLife } = allocateRecycling(burdens, { a: 1, r1: 0.4, r2: 0.8, qsQp: 1 });
+    // 0.6 × 10 + 0.4 × 2
+    expect(material.co2).toBeCloseTo(6.8);
+    // Only the landfilled 20 % is charged
+    expect(endOfLife.co2).toBeCloseTo(0.1);
+  });
+
+  it("credits recycling at end of life with the displaced primary metal under avoided burden", () => {
+    const { material, endOfLife } = allocateRecycling(burdens, { a: 0, r1: 0.4, r2: 0.8, qsQp: 1 });
+    // Scrap input carries the primary burden it displaced
+    expect(material.co2).toBeCloseTo(10);
+    // 0.8 × (1 − 10) + 0.2 × 0.5
+    expect(endOfLife.co2).toBeCloseTo(-7.1);
+  });
+
+  it("matches the PEF reference formula for the CFF", () => {
+    const { a, r1, r2, qsQp } = defaults;
+    const { material, endOfLife } = allocateRecycling(burdens, defaults);
+    expect(material.co2).toBeCloseTo((1 - r1) * 10 + r1 * (a * 2 + (1 - a) * 10 * qsQp));
+    expect(endOfLife.co2).toBeCloseTo((1 - a) * r2 * (1 - 10 * qsQp) + (1 - r2) * 0.5);
+    expect(material.water).toBeCloseTo(material.co2 * 100);
+  });
+
+  it("reduces to the primary burden plus disposal without any recycling", () => {
+    const { material, endOfLife } = allocateRecycling(burdens, { ...defaults, r1: 0, r2: 0 });
+    expect(material).toEqual(burdens.virgin);
+    expect(endOfLife).toEqual(burdens.disposal);
+  });
+});
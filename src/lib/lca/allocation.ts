@@ -0,0 +1,86 @@
+import type { AllocationMethod, AllocationParameters, ImpactTotals } from "./types";
+
+export const allocationMethods: Record<AllocationMethod, { label: string; description: string }> = {
+  cutoff: {
+    label: "Recycled content (cut-off)",
+    description: "Scrap enters burden-free and recycling at end of life earns no credit.",
+  },
+  avoidedBurden: {
+    label: "End of life (avoided burden)",
+    description: "Recycling at end of life is credited with the primary production it displaces.",
+  },
+  fiftyFifty: {
+    label: "50:50",
+    description: "Burdens and benefits of recycling are split equally between supplying and using life cycles.",
+  },
+  cff: {
+    label: "Circular Footprint Formula (EU PEF)",
+    description: "Splits burdens and credits with the allocation factor A and the quality ratio Qs/Qp.",
+  },
+};
+
+// Burdens per kg of metal for each term of the Circular Footprint Formula
+export interface AllocationBurdens {
+  virgin: ImpactTotals; // Ev, also used as the displaced E*v
+  recycledInput: ImpactTotals; // Erecycled
+  recyclingEoL: ImpactTotals; // ErecyclingEoL
+  disposal: ImpactTotals; // ED
+}
+
+export interface AllocatedBurdens {
+  material: ImpactTotals; // per kg, input side
+  endOfLife: ImpactTotals; // per kg, output side including disposal
+}
+
+/**
+ * Fixes the parameters implied by each method. The classic approaches are special
+ * cases of the CFF: cut-off is A = 1, avoided burden is A = 0, 50:50 is A = 0.5,
+ * the last two without a quality correction.
+ */
+export const resolveAllocationParameters = (
+  method: AllocationMethod,
+  defaults: AllocationParameters,
+  overrides: Partial<AllocationParameters> = {},
+): AllocationParameters => {
+  switch (method) {
+    case "cutoff":
+      return { ...defaults, a: 1, qsQp: 1 };
+    case "avoidedBurden":
+      return { ...defaults, a: 0, qsQp: 1 };
+    case "fiftyFifty":
+      return { ...defaults, a: 0.5, qsQp: 1 };
+    case "cff":
+      return { ...defaults, ...overrides, r1: defaults.r1 };
+  }
+};
+
+const combine = (terms: [number, ImpactTotals][]): ImpactTotals =>
+  terms.reduce(
+    (total, [weight, impacts]) => ({
+      co2: total.co2 + weight * impacts.co2,
+      energy: total.energy + weight * impacts.energy,
+      water: total.water + weight * impacts.water,
+    }),
+    { co2: 0, energy: 0, water: 0 },
+  );
+
+/**
+ * Circular Footprint Formula without the energy-recovery terms:
+ *   material  = (1 − R1)·Ev + R1·(A·Erec + (1 − A)·Ev·Qs/Qp)
+ *   end of life = (1 − A)·R2·(ErecEoL − E*v·Qs/Qp) + (1 − R2)·ED
+ */
+export const allocateRecycling = (
+  burdens: AllocationBurdens,
+  { a, r1, r2, qsQp }: AllocationParameters,
+): AllocatedBurdens => ({
+  material: combine([
+    [1 - r1, burdens.virgin],
+    [r1 * a, burdens.recycledInput],
+    [r1 * (1 - a) * qsQp, burdens.virgin],
+  ]),
+  endOfLife: combine([
+    [(1 - a) * r2, burdens.recyclingEoL],
+    [-(1 - a) * r2 * qsQp, burdens.virgin],
+    [1 - r2, burdens.disposal],
+  ]),
+});
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { alloys, getAlloysForMetal, getComposition, getElement, type AlloyId } from "./alloys";
+import { getFactors } from "./factor-database";
+
+describe("alloys", () => {
+  it("adds up to the whole product and has production factors for every element", () => {
+    const factors = getFactors();
+    (Object.keys(alloys) as AlloyId[]).forEach((id) => {
+      const { baseMetal, composition } = alloys[id];
+      expect(composition.reduce((sum, { fraction }) => sum + fraction, 0)).toBeCloseTo(1, 6);
+      expect(composition[0].element).toBe(baseMetal);
+      composition.forEach(({ element }) => {
+        expect(getElement(element).emissionsPedigree).toHaveLength(5);
+        expect(() => factors(`${element}.primary.co2`)).not.toThrow();
+        expect(() => factors(`${element}.postConsumer.co2`)).not.toThrow();
+      });
+    });
+  });
+});
+
+describe("getAlloysForMetal", () => {
+  it("lists only the alloys based on the metal", () => {
+    const aluminium = getAlloysForMetal("aluminum");
+    expect(aluminium).toContain("aa6061");
+    aluminium.forEach((id) => expect(alloys[id].baseMetal).toBe("aluminum"));
+  });
+});
+
+describe("getComposition", () => {
+  it("uses the alloy's composition only for its own base metal", () => {
+    expect(getComposition("aluminum", "aa6061")).toBe(alloys.aa6061.composition);
+    expect(getComposition("aluminum")).toEqual([{ element: "aluminum", fraction: 1 }]);
+    expect(getComposition("copper", "aa6061")).toEqual([{ element: "copper", fraction: 1 }]);
+  });
+});
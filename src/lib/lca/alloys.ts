@@ -0,0 +1,96 @@
+import { metals, type MetalDefinition, type MetalId } from "./metals";
+
+type ElementFactors = Pick<MetalDefinition, "label" | "symbol" | "emissions" | "emissionsPedigree">;
+
+// Alloying additions that are not selectable as a product metal on their own
+export const alloyingElements = {
+  magnesium: {
+    label: "Magnesium",
+    symbol: "Mg",
+    emissions: { so2: 0.02, pm25: 2e-3, landOccupation: 0.2 },
+    emissionsPedigree: [4, 3, 3, 4, 3],
+  },
+  silicon: {
+    label: "Silicon",
+    symbol: "Si",
+    emissions: { so2: 0.01, pm25: 1e-3, landOccupation: 0.1 },
+    emissionsPedigree: [4, 3, 3, 4, 3],
+  },
+  chromium: {
+    label: "Chromium",
+    symbol: "Cr",
+    emissions: { so2: 0.005, pm25: 1e-3, landOccupation: 0.3 },
+    emissionsPedigree: [4, 3, 3, 4, 3],
+  },
+  manganese: {
+    label: "Manganese",
+    symbol: "Mn",
+    emissions: { so2: 0.004, pm25: 1e-3, landOccupation: 0.5 },
+    emissionsPedigree: [4, 3, 3, 4, 3],
+  },
+} satisfies Record<string, ElementFactors>;
+
+export type ElementId = MetalId | keyof typeof alloyingElements;
+
+export interface AlloyDefinition {
+  label: string;
+  baseMetal: MetalId;
+  composition: { element: ElementId; fraction: number }[]; // mass fractions summing to 1
+}
+
+export const alloys = {
+  aa6061: {
+    label: "6061 Aluminium",
+    baseMetal: "aluminum",
+    composition: [
+      { element: "aluminum", fraction: 0.9792 },
+      { element: "magnesium", fraction: 0.01 },
+      { element: "silicon", fraction: 0.006 },
+      { element: "copper", fraction: 0.0028 },
+      { element: "chromium", fraction: 0.002 },
+    ],
+  },
+  aa5052: {
+    label: "5052 Aluminium",
+    baseMetal: "aluminum",
+    composition: [
+      { element: "aluminum", fraction: 0.9725 },
+      { element: "magnesium", fraction: 0.025 },
+      { element: "chromium", fraction: 0.0025 },
+    ],
+  },
+  c11000: {
+    label: "C11000 ETP Copper",
+    baseMetal: "copper",
+    composition: [{ element: "copper", fraction: 1 }],
+  },
+  c26000: {
+    label: "C26000 Cartridge Brass",
+    baseMetal: "copper",
+    composition: [
+      { element: "copper", fraction: 0.7 },
+      { element: "zinc", fraction: 0.3 },
+    ],
+  },
+  c36000: {
+    label: "C36000 Free-Cutting Brass",
+    baseMetal: "copper",
+    composition: [
+      { element: "copper", fraction: 0.615 },
+      { element: "zinc", fraction: 0.355 },
+      { element: "lead", fraction: 0.03 },
+    ],
+  },
+} satisfies Record<string, AlloyDefinition>;
+
+export type AlloyId = keyof typeof alloys;
+
+export const getElement = (id: ElementId): ElementFactors =>
+  id in metals ? metals[id as MetalId] : alloyingElements[id as keyof typeof alloyingElements];
+
+export const getAlloysForMetal = (metal: MetalId): AlloyId[] =>
+  (Object.keys(alloys) as AlloyId[]).filter((id) => alloys[id].baseMetal === metal);
+
+/** Composition of the product: the alloy when one is chosen, else the pure metal. */
+export const getComposition = (metal: MetalId, alloy?: AlloyId): AlloyDefinition["composition"] =>
+  alloy && alloys[alloy].baseMetal === metal ? alloys[alloy].composition : [{ element: metal, fraction: 1 }];
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { addFlows, characterize, impactCategoryIds, mineralDepletionFactors } from "./characterization";
+import { getFactors } from "./factor-database";
+
+describe("addFlows", () => {
+  it("adds scaled flows without changing the total passed in", () => {
+    const total = { so2: 1 };
+    expect(addFlows(total, { so2: 2, nox: 1 }, 0.5)).toEqual({ so2: 2, nox: 0.5 });
+    expect(total).toEqual({ so2: 1 });
+  });
+});
+
+describe("characterize", () => {
+  const factors = getFactors();
+
+  it("applies the EF 3.1 factors to each flow", () => {
+    const scores = characterize({ so2: 2, nox: 1, nh3: 0.5 }, factors);
+    expect(scores.acidification).toBeCloseTo(2 * 1.31 + 0.74 + 0.5 * 3.02, 9);
+    expect(scores.photochemicalOzone).toBeCloseTo(2 * 0.081 + 1, 9);
+  });
+
+  it("characterizes extracted elements as mineral depletion", () => {
+    const scores = characterize({ "resource:copper": 1000 }, factors);
+    expect(scores.mineralDepletion).toBeCloseTo(1000 * mineralDepletionFactors.copper, 12);
+  });
+
+  it("scores every category, starting from zero", () => {
+    const scores = characterize({}, factors);
+    expect(Object.keys(scores).sort()).toEqual([...impactCategoryIds].sort());
+    Object.values(scores).forEach((score) => expect(score).toBe(0));
+  });
+
+  it("reads overridden factors through the lookup", () => {
+    const lookup = (id: string, fallback?: number) => (id === "characterization.landUse.landOccupation" ? 100 : fallback);
+    expect(characterize({ landOccupation: 2 }, lookup).landUse).toBe(200);
+  });
+});
@@ -0,0 +1,120 @@
+import type { ElementId } from "./alloys";
+import type { FactorLookup } from "./factor-database";
+import type { ElementaryFlowId, ElementaryFlows, EmissionId, ImpactCategoryId } from "./types";
+
+export interface ImpactCategoryDefinition {
+  label: string;
+  unit: string;
+  indicator: string; // EF 3.1 indicator the factors follow
+  factors: Partial<Record<EmissionId, number>>; // per kg emitted (per m²·a or MJ for resource flows)
+}
+
+// Midpoint characterization factors after EF 3.1 (JRC 2022), rounded to two or three
+// significant figures. Toxicity factors are the USEtox totals for emissions to
+// continental air or freshwater. The engine reads them through the factor database
+// so analysts can override them from the factor library.
+export const impactCategories: Record<ImpactCategoryId, ImpactCategoryDefinition> = {
+  acidification: {
+    label: "Acidification",
+    unit: "mol H⁺-eq",
+    indicator: "Accumulated exceedance",
+    factors: { so2: 1.31, nox: 0.74, nh3: 3.02 },
+  },
+  eutrophication: {
+    label: "Freshwater Eutrophication",
+    unit: "kg P-eq",
+    indicator: "Fraction of nutrients reaching freshwater",
+    factors: { phosphate: 0.33 },
+  },
+  photochemicalOzone: {
+    label: "Photochemical Ozone",
+    unit: "kg NMVOC-eq",
+    indicator: "Tropospheric ozone concentration increase",
+    factors: { nox: 1.0, nmvoc: 1.0, so2: 0.081 },
+  },
+  particulateMatter: {
+    label: "Particulate Matter",
+    unit: "disease inc.",
+    indicator: "Impact on human health (PM2.5 and precursors)",
+    factors: { pm25: 6.3e-4, so2: 1.3e-5, nox: 4.4e-6, nh3: 2.6e-5 },
+  },
+  humanToxicity: {
+    label: "Human Toxicity",
+    unit: "CTUh",
+    indicator: "Comparative toxic unit for humans",
+    factors: { arsenicAir: 3.6e-3, cadmiumAir: 1.5e-2, leadAir: 3.0e-4 },
+  },
+  ecotoxicity: {
+    label: "Freshwater Ecotoxicity",
+    unit: "CTUe",
+    indicator: "Comparative toxic unit for ecosystems",
+    factors: { copperWater: 2.6e4, zincWater: 1.6e4, arsenicAir: 2.2e3, cadmiumAir: 4.5e3, leadAir: 1.1e2 },
+  },
+  mineralDepletion: {
+    label: "Resource Use, Minerals & Metals",
+    unit: "kg Sb-eq",
+    indicator: "Abiotic depletion potential, ultimate reserves",
+    factors: {},
+  },
+  fossilDepletion: {
+    label: "Resource Use, Fossils",
+    unit: "MJ",
+    indicator: "Abiotic depletion potential, fossil fuels",
+    factors: { fossilEnergy: 1 },
+  },
+  landUse: {
+    label: "Land Use",
+    unit: "pt",
+    indicator: "Soil quality index",
+    factors: { landOccupation: 76 },
+  },
+};
+
+export const impactCategoryIds = Object.keys(impactCategories) as ImpactCategoryId[];
+
+export const defaultImpactCategories: ImpactCategoryId[] = ["acidification", "particulateMatter", "mineralDepletion"];
+
+// ADP ultimate reserves, kg Sb-eq per kg of element extracted
+export const mineralDepletionFactors: Record<ElementId, number> = {
+  aluminum: 1.09e-9,
+  copper: 1.37e-3,
+  steel: 5.24e-8,
+  stainless: 1.2e-4, // ~18% chromium, 8% nickel on an iron base
+  zinc: 5.38e-4,
+  nickel: 6.53e-5,
+  lead: 6.34e-3,
+  titanium: 2.79e-8,
+  lithium: 1.15e-5,
+  cobalt: 1.57e-5,
+  tin: 1.62e-2,
+  magnesium: 2.02e-9,
+  silicon: 1.4e-11,
+  chromium: 4.43e-4,
+  manganese: 2.54e-6,
+};
+
+/** Adds `flows` scaled by `factor` into `total`, returning the new total. */
+export const addFlows = (total: ElementaryFlows, flows: ElementaryFlows = {}, factor = 1): ElementaryFlows => {
+  const sum = { ...total };
+  (Object.entries(flows) as [ElementaryFlowId, number][]).forEach(([flow, amount]) => {
+    sum[flow] = (sum[flow] ?? 0) + amount * factor;
+  });
+  return sum;
+};
+
+/**
+ * Characterizes an elementary flow inventory into a score for every impact category.
+ * Factors are read from the factor database as "characterization.<category>.<flow>",
+ * so flows without one simply do not contribute.
+ */
+export const characterize = (flows: ElementaryFlows, factors: FactorLookup): Record<ImpactCategoryId, number> => {
+  const scores = Object.fromEntries(impactCategoryIds.map((id) => [id, 0])) as Record<ImpactCategoryId, number>;
+
+  (Object.entries(flows) as [ElementaryFlowId, number][]).forEach(([flow, amount]) => {
+    impactCategoryIds.forEach((id) => {
+      scores[id] += amount * factors(`characterization.${id}.${flow}`, 0);
+    });
+  });
+
+  return scores;
+};
@@ -0,0 +1,27 @@
+import { impactCategories } from "./characterization";
+import type { ImpactCategoryId, ImpactKey, ImpactTotals } from "./types";
+
+interface ImpactDisplay {
+  label: string;
+  unit: string;
+  scale: number; // engine value × scale = displayed value
+}
+
+// The engine works in kg, MJ and L; the dashboard shows tonnes, GJ and m³
+export const headlineImpacts: Record<keyof ImpactTotals, ImpactDisplay> = {
+  co2: { label: "CO₂ Footprint", unit: "t CO₂-eq", scale: 1 / 1000 },
+  energy: { label: "Energy Use", unit: "GJ", scale: 1 / 1000 },
+  water: { label: "Water Use", unit: "m³", scale: 1 / 1000 },
+};
+
+export const getImpactDisplay = (key: ImpactKey): ImpactDisplay => {
+  if (key in headlineImpacts) return headlineImpacts[key as keyof ImpactTotals];
+  const { label, unit } = impactCategories[key as ImpactCategoryId];
+  return { label, unit, scale: 1 };
+};
+
+// Scores span from CTUh (~1e-6) to land use points (~1e5)
+export const formatScore = (value: number) =>
+  value === 0 || (Math.abs(value) >= 0.01 && Math.abs(value) < 1e6)
+    ? value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+    : value.toExponential(2);
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { getEnergyFlows, getEnergySupply, getMixTotal } from "./energy";
+import { calculateLCA } from "./engine";
+import { getFactors } from "./factor-database";
+import { lcaResultSchema } from "./schemas";
+import { testInputs } from "./test-fixtures";
+import type { LCAInputs } from "./types";
+
+const inputs: LCAInputs = { ...testInputs, recycledContent: 0 };
+
+describe("getEnergySupply", () => {
+  it("weights each source's intensity by its share", () => {
+    const factors = getFactors();
+    const supply = getEnergySupply({ energyMix: { coal: 25, hydro: 75 } });
+    expect(supply.intensity).toBeCloseTo(0.25 * factors("energy.coal") + 0.75 * factors("energy.hydro"));
+    expect(supply.renewableShare).toBe(0.75);
+  });
+
+  it("normalises a mix that does not add up to 100", () => {
+    const supply = getEnergySupply({ energyMix: { coal: 30, hydro: 30 } });
+    expect(getMixTotal({ coal: 30, hydro: 30 })).toBe(60);
+    expect(supply.shares.map(({ share }) => share)).toEqual([0.5, 0.5]);
+  });
+
+  it("keeps an all-renewable mix at exactly 100 % renewable", () => {
+    const supply = getEnergySupply({ energyMix: { hydro: 33, solar: 56, wind: 11 } });
+    expect(supply.renewableShare).toBe(1);
+    supply.shares.forEach(({ share }) => expect(share).toBeLessThanOrEqual(1));
+  });
+
+  it("gives a result the shared schema accepts for that mix", () => {
+    const result = calculateLCA({ ...inputs, energyMix: { hydro: 33, solar: 56, wind: 11 } });
+    expect(lcaResultSchema.safeParse(result).success).toBe(true);
+  });
+
+  it("labels a single grid supply with its region", () => {
+    const supply = getEnergySupply({ energyMix: { grid: 100 }, gridRegion: "WORLD" });
+    expect(supply.gridRegion).toBe("WORLD");
+    expect(supply.label).toMatch(/^Grid · /);
+  });
+});
+
+describe("getEnergyFlows", () => {
+  it("scales each source's emissions by the energy it supplies", () => {
+    const supply = getEnergySupply({ energyMix: { coal: 100 } });
+    const single = getEnergyFlows(supply, 1);
+    const double = getEnergyFlows(supply, 2);
+    expect(double.so2).toBeCloseTo(2 * single.so2);
+  });
+});
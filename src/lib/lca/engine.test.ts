@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { calculateLCA, compareToBaseline, getCollectionRate, getDefaultAllocationParameters, getFeedstockShares } from "./engine";
+import { factorDatabases } from "./factor-database";
+import { setFactorLibrary } from "./factor-library";
+import { lcaResultSchema } from "./schemas";
+import { mineToPort, portToSmelter, testInputs } from "./test-fixtures";
+import type { LCAInputs } from "./types";
+
+const inputs: LCAInputs = { ...testInputs, transportLegs: [mineToPort, portToSmelter] };
+
+afterEach(() => setFactorLibrary({ factors: [], audit: [] }));
+
+const total = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+describe("getFeedstockShares", () => {
+  it("splits the recycled content between pre- and post-consumer scrap", () => {
+    const shares = getFeedstockShares(inputs);
+    expect(shares.primary).toBeCloseTo(0.6);
+    expect(shares.preConsumer).toBeCloseTo(0.2);
+    expect(shares.postConsumer).toBeCloseTo(0.2);
+  });
+
+  it("clamps percentages outside 0–100", () => {
+    expect(getFeedstockShares({ ...inputs, recycledContent: 140, postConsumerShare: -10 })).toEqual({
+      primary: 0,
+      preConsumer: 1,
+      postConsumer: 0,
+    });
+  });
+});
+
+describe("getCollectionRate", () => {
+  it("is zero when the product is landfilled", () => {
+    expect(getCollectionRate({ ...inputs, endOfLife: "landfill" })).toBe(0);
+  });
+
+  it("reads the collection rate as a fraction", () => {
+    expect(getCollectionRate({ ...inputs, circularityParameters: { collectionRate: 75 } })).toBe(0.75);
+  });
+});
+
+describe("getDefaultAllocationParameters", () => {
+  it("takes R1 from the recycled content and R2 from collection and yield", () => {
+    const { r1, r2 } = getDefaultAllocationParameters(inputs);
+    expect(r1).toBeCloseTo(0.4);
+    expect(r2).toBeGreaterThan(0);
+    expect(r2).toBeLessThanOrEqual(0.9);
+  });
+});
+
+describe("calculateLCA", () => {
+  it("returns a result that satisfies the shared schema", () => {
+    expect(lcaResultSchema.safeParse(calculateLCA(inputs)).success).toBe(true);
+  });
+
+  it("totals the contributions into the headline impacts", () => {
+    const result = calculateLCA(inputs);
+    expect(total(result.contributions.map(({ impacts }) => impacts.co2))).toBeCloseTo(result.impacts.co2, 6);
+    expect(total(result.contributions.map(({ impacts }) => impacts.energy))).toBeCloseTo(result.impacts.energy, 6);
+  });
+
+  it("scales every impact linearly with the quantity", () => {
+    const single = calculateLCA(inputs);
+    const double = calculateLCA({ ...inputs, quantity: 2000 });
+    expect(double.impacts.co2).toBeCloseTo(2 * single.impacts.co2, 6);
+    expect(double.impacts.water).toBeCloseTo(2 * single.impacts.water, 6);
+    expect(double.categories.acidification).toBeCloseTo(2 * single.categories.acidification, 9);
+  });
+
+  it("lowers the footprint as recycled content rises", () => {
+    const primary = calculateLCA({ ...inputs, recycledContent: 0 });
+    const recycled = calculateLCA({ ...inputs, recycledContent: 85 });
+    expect(recycled.impacts.co2).toBeLessThan(primary.impacts.co2);
+    expect(recycled.circularity.circularityIndex).toBeGreaterThan(primary.circularity.circularityIndex);
+  });
+
+  it("follows the electricity supply for primary aluminium", () => {
+    const grid = calculateLCA({ ...inputs, recycledContent: 0 });
+    const hydro = calculateLCA({ ...inputs, recycledContent: 0, energyMix: { hydro: 100 } });
+    expect(hydro.impacts.co2).toBeLessThan(grid.impacts.co2 / 2);
+  });
+
+  it("sums a unit-process route to the release's primary factor at the reference grid", () => {
+    // The 2024.1 world grid is the 480 g/kWh reference, so 1 t of primary aluminium is 11.9 t CO₂-eq
+    const production = (metal: LCAInputs["metal"]) =>
+      calculateLCA({ ...inputs, metal, recycledContent: 0 }).contributions.find(({ stage }) => stage === "Production");
+    expect(production("aluminum").impacts.co2).toBeCloseTo(11900, 6);
+    expect(production("aluminum").impacts.energy).toBeCloseTo(170000, 6);
+    expect(production("copper").impacts.co2).toBeCloseTo(4200, 6);
+  });
+
+  it("reads the primary factor of the chosen release for metals with a unit-process route", () => {
+    // Hydro has the same intensity in both releases, so only the primary factor differs
+    const primary = { ...inputs, recycledContent: 0, energyMix: { hydro: 100 } };
+    const production = (factorDatabase: string) =>
+      calculateLCA({ ...primary, factorDatabase }).contributions.find(({ stage }) => stage === "Production").impacts;
+    expect(production("2021.1").co2 / production("2024.1").co2).toBeCloseTo(12.6 / 11.9, 9);
+    expect(production("2021.1").water / production("2024.1").water).toBeCloseTo(1620 / 1550, 9);
+  });
+
+  it("reads a library edit of a primary factor for metals with a unit-process route", () => {
+    const bundled = factorDatabases[0].factors.find(({ id }) => id === "aluminum.primary.co2");
+    const primary = { ...inputs, recycledContent: 0 };
+    const before = calculateLCA(primary);
+    setFactorLibrary({ factors: [{ ...bundled, value: 100 }], audit: [] });
+    const after = calculateLCA(primary);
+    expect(after.factorDatabase.version).toBe("local");
+    const production = (result: typeof before) => result.contributions.find(({ stage }) => stage === "Production").impacts.co2;
+    expect(production(after) / production(before)).toBeCloseTo(100 / 11.9, 9);
+  });
+
+  it("adds nothing for transport when there are no legs", () => {
+    const result = calculateLCA({ ...inputs, transportLegs: [] });
+    expect(result.contributions.some(({ category }) => category === "transport")).toBe(false);
+  });
+
+  it("weights data quality by each factor's share of the CO₂ result", () => {
+    const { parameters } = calculateLCA(inputs).dataQuality;
+    expect(total(parameters.map(({ weight }) => weight))).toBeCloseTo(1, 9);
+    parameters.forEach(({ weight }) => expect(weight).toBeGreaterThan(0));
+    // Process emissions never reach the CO₂ result
+    expect(parameters.map(({ parameter }) => parameter)).not.toContain("processEmissions");
+  });
+
+  it("keeps the scenario's own inputs on the result", () => {
+    const scenario = { ...inputs, targetYear: 2040 };
+    expect(calculateLCA(scenario).inputs).toBe(scenario);
+  });
+});
+
+describe("compareToBaseline", () => {
+  it("reports reductions as positive percentages", () => {
+    const baseline = calculateLCA({ ...inputs, recycledContent: 0 });
+    const reduction = compareToBaseline(calculateLCA({ ...inputs, recycledContent: 85 }), baseline);
+    expect(reduction.co2).toBeGreaterThan(0);
+    expect(compareToBaseline(baseline, baseline).co2).toBe(0);
+  });
+});
@@ -0,0 +1,433 @@
+import type {
+  AllocationParameters,
+  CircularityParameters,
+  ElementaryFlows,
+  EnergySupply,
+  StageResult,
+  FeedstockShares,
+  ImpactContribution,
+  ImpactTotals,
+  InventoryFlow,
+  LCAInputs,
+  LCAResult,
+  ParameterMultipliers,
+  UncertainParameterId,
+} from "./types";
+import { calculateLegFlows, calculateLegTransport, transportModes } from "./transport";
+import { calculateMCI } from "./mci";
+import { getMetal } from "./metals";
+import { getComposition, getElement, type ElementId } from "./alloys";
+import { getEnergyFlows, getEnergySupply, REFERENCE_GRID_INTENSITY } from "./energy";
+import { getFactorDatabaseRelease, getImpactFactors } from "./factor-database";
+import { getProjectedFactors, projectInputs } from "./pathways";
+import { addFlows, characterize } from "./characterization";
+import { assessDataQuality, getParameterPedigrees } from "./pedigree";
+import { calculateStage, getProcessStages } from "./stages";
+import { solveProductSystem, type LCISolution } from "./matrix";
+import { buildProductSystem, FUNCTIONAL_PRODUCT } from "./product-system";
+import { allocateRecycling, allocationMethods, resolveAllocationParameters, type AllocationBurdens } from "./allocation";
+
+// Quality lost per unit of post-consumer scrap through tramp elements
+const POST_CONSUMER_QUALITY_LOSS = 0.06;
+
+export const defaultCircularityParameters: CircularityParameters = {
+  collectionRate: 90,
+  lifetimeRatio: 1,
+  usageIntensityRatio: 1,
+};
+
+const zeroImpacts = (): ImpactTotals => ({ co2: 0, energy: 0, water: 0 });
+
+const mapImpacts = (impacts: ImpactTotals, fn: (value: number, impact: keyof ImpactTotals) => number): ImpactTotals => ({
+  co2: fn(impacts.co2, "co2"),
+  energy: fn(impacts.energy, "energy"),
+  water: fn(impacts.water, "water"),
+});
+
+const sumImpacts = (contributions: { impacts: ImpactTotals }[]): ImpactTotals =>
+  contributions.reduce(
+    (total, { impacts }) => ({
+      co2: total.co2 + impacts.co2,
+      energy: total.energy + impacts.energy,
+      water: total.water + impacts.water,
+    }),
+    zeroImpacts(),
+  );
+
+/**
+ * Per-impact multipliers that make the element's unmodified route sum, at the
+ * reference grid, to the primary factor in use. The routes only apportion the
+ * factor between stages, so a different release or a library edit of
+ * "<element>.primary.*" changes the result just as it does for metals without one.
+ */
+const getRouteCalibration = (element: ElementId, primary: ImpactTotals): ImpactTotals => {
+  const reference = sumImpacts(
+    getProcessStages(element).map((stage) => ({ impacts: calculateStage(stage, REFERENCE_GRID_INTENSITY) })),
+  );
+  return mapImpacts(primary, (value, impact) => (reference[impact] > 0 ? value / reference[impact] : 0));
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Splits the metal input into primary, pre-consumer and post-consumer fractions. */
+export const getFeedstockShares = (inputs: LCAInputs): FeedstockShares => {
+  const recycled = clamp(inputs.recycledContent, 0, 100) / 100;
+  const postConsumer = recycled * (clamp(inputs.postConsumerShare, 0, 100) / 100);
+  return {
+    primary: 1 - recycled,
+    preConsumer: recycled - postConsumer,
+    postConsumer,
+  };
+};
+
+/** Share of the product collected for recycling at end of life (0–1). */
+export const getCollectionRate = (inputs: LCAInputs): number =>
+  inputs.endOfLife === "recycling"
+    ? clamp((inputs.circularityParameters?.collectionRate ?? defaultCircularityParameters.collectionRate) / 100, 0, 1)
+    : 0;
+
+/** CFF parameters derived from the scenario, before any analyst overrides. */
+export const getDefaultAllocationParameters = (inputs: LCAInputs): AllocationParameters => {
+  const shares = getFeedstockShares(inputs);
+  return {
+    a: getMetal(inputs.metal).cffA,
+    r1: shares.preConsumer + shares.postConsumer,
+    r2: getCollectionRate(inputs) * getMetal(inputs.metal).recyclingYield,
+    qsQp: 1 - POST_CONSUMER_QUALITY_LOSS,
+  };
+};
+
+// Mass-balanced flows read off the solved product system, in tonnes and GJ
+const buildInventory = (inputs: LCAInputs, lci: LCISolution, energySupply: EnergySupply): InventoryFlow[] => {
+  const tonnes = (kg: number) => kg / 1000;
+  const { scaling } = lci;
+  const flows: InventoryFlow[] = [];
+  const exchange = (process: string, product: string) =>
+    lci.exchanges.find((entry) => entry.process === process && entry.product === product)?.amount ?? 0;
+
+  // Recovered scrap first closes the product's own loop; the market covers any shortfall
+  const postConsumerDemand = -exchange("production", "postConsumerScrap");
+  const recovered = exchange("useAndEndOfLife", "postConsumerScrap");
+  const closedLoop = Math.min(recovered, postConsumerDemand);
+  const exported = Math.max(0, -scaling.scrapMarket);
+
+  if (scaling.preConsumerScrap > 0) {
+    flows.push({ from: "Pre-consumer Scrap", to: "Production", value: tonnes(scaling.preConsumerScrap), unit: "t", type: "recycled", stage: "inputs" });
+  }
+  if (postConsumerDemand > 0) {
+    flows.push({
+      from: "Post-consumer Scrap",
+      to: "Production",
+      value: tonnes(postConsumerDemand),
+      unit: "t",
+      type: "recycled",
+      stage: "inputs",
+      detail: `${tonnes(closedLoop).toFixed(2)} t closed loop · ${tonnes(Math.max(0, scaling.scrapMarket)).toFixed(2)} t market`,
+    });
+  }
+  if (scaling.primaryProduction > 0) {
+    flows.push({ from: "Raw Materials", to: "Production", value: tonnes(scaling.primaryProduction), unit: "t", type: "primary", stage: "inputs" });
+  }
+  energySupply.shares.forEach(({ label, share }) => {
+    flows.push({ from: `${label} Energy`, to: "Production", value: tonnes(lci.inventory.energy) * share, unit: "GJ", type: "energy", stage: "inputs" });
+  });
+
+  // Each transport leg is its own node between production and use
+  const delivered = tonnes(scaling.production);
+  const legs = inputs.transportLegs;
+  flows.push({ from: "Production", to: legs[0]?.label ?? "Use Phase", value: delivered, unit: "t", type: "primary", stage: "production" });
+  legs.forEach((leg, index) => {
+    flows.push({
+      from: leg.label,
+      to: legs[index + 1]?.label ?? "Use Phase",
+      value: delivered,
+      unit: "t",
+      type: "transport",
+      stage: "distribution",
+      detail: `${transportModes[leg.mode].label} · ${leg.distance.toLocaleString()} km`,
+    });
+  });
+
+  const landfilled = lci.inventory.landfill ?? 0;
+  const recyclingLoss = lci.inventory.recyclingLoss ?? 0;
+  const collected = scaling.useAndEndOfLife - landfilled;
+  if (collected > 0) {
+    flows.push({ from: "Use Phase", to: "Recycling", value: tonnes(collected), unit: "t", type: "circular", stage: "endOfLife" });
+  }
+  if (landfilled > 0) {
+    flows.push({ from: "Use Phase", to: "Waste", value: tonnes(landfilled), unit: "t", type: "waste", stage: "endOfLife" });
+  }
+  if (collected > 0) {
+    if (closedLoop > 0) {
+      flows.push({ from: "Recycling", to: "Post-consumer Scrap", value: tonnes(closedLoop), unit: "t", type: "circular", stage: "recovery" });
+    }
+    if (exported > 0) {
+      flows.push({ from: "Recycling", to: "Scrap Market", value: tonnes(exported), unit: "t", type: "circular", stage: "recovery" });
+    }
+    flows.push({ from: "Recycling", to: "Waste", value: tonnes(recyclingLoss), unit: "t", type: "waste", stage: "recovery" });
+  }
+
+  return flows;
+};
+
+/**
+ * Runs the life cycle assessment for one set of inputs. Pure and synchronous so
+ * every view (KPI cards, flows, scenario previews, reports) reads the same numbers.
+ * `multipliers` perturb the underlying factors for uncertainty and sensitivity runs.
+ * A target year runs the scenario as the decarbonisation pathways project it.
+ */
+export const calculateLCA = (scenarioInputs: LCAInputs, multipliers: ParameterMultipliers = {}): LCAResult => {
+  const inputs = projectInputs(scenarioInputs);
+  const factor = (parameter: UncertainParameterId) => multipliers[parameter] ?? 1;
+  const database = getProjectedFactors(inputs.factorDatabase, inputs.targetYear);
+  const metal = getMetal(inputs.metal);
+  const shares = getFeedstockShares(inputs);
+  const energySupply = getEnergySupply(inputs);
+  const gridIntensity = energySupply.intensity * factor("gridIntensity");
+  const energyFactor = energySupply.co2Factor * factor("gridIntensity");
+  const r1 = shares.preConsumer + shares.postConsumer;
+  const scale = (impacts: ImpactTotals, parameter: UncertainParameterId) =>
+    mapImpacts(impacts, (value) => value * factor(parameter));
+
+  // Without a unit-process route the energy supply scales the black-box CO₂ factor
+  const withEnergy = (impacts: ImpactTotals): ImpactTotals => ({ ...impacts, co2: impacts.co2 * energyFactor });
+  const elements = getComposition(inputs.metal, inputs.alloy).map(({ element, fraction }) => {
+    const factors = getElement(element);
+    const primaryFactors = getImpactFactors(database, `${element}.primary`);
+    const route = getProcessStages(element, inputs.stageParameters);
+    const calibration = route && getRouteCalibration(element, primaryFactors);
+    const stages = route?.map((stage) => ({
+      id: stage.id,
+      label: stage.label,
+      impacts: scale(
+        mapImpacts(calculateStage(stage, gridIntensity), (value, impact) => value * calibration[impact]),
+        "primaryBurden",
+      ),
+    }));
+    const primary = stages ? sumImpacts(stages) : scale(withEnergy(primaryFactors), "primaryBurden");
+    // CO₂ per kg of primary metal that follows the electricity supply; all of it for black-box factors
+    const electricityCo2 = route
+      ? route.reduce((sum, stage) => sum + (stage.electricity * gridIntensity) / 1000, 0) *
+        calibration.co2 *
+        factor("primaryBurden")
+      : primary.co2;
+    const preConsumer = scale(withEnergy(getImpactFactors(database, `${element}.preConsumer`)), "secondaryBurden");
+    const postConsumer = scale(withEnergy(getImpactFactors(database, `${element}.postConsumer`)), "secondaryBurden");
+    return {
+      label: factors.label,
+      fraction,
+      stages,
+      primary,
+      preConsumer,
+      postConsumer,
+      electricityCo2,
+      // Elementary flows per kg: energy supply for every route, plus mining, smelting
+      // and the extracted element itself for primary metal
+      flows: {
+        primary: addFlows(
+          addFlows(getEnergyFlows(energySupply, primary.energy), factors.emissions, factor("processEmissions")),
+          { [`resource:${element}`]: 1 },
+        ),
+        preConsumer: getEnergyFlows(energySupply, preConsumer.energy),
+        postConsumer: getEnergyFlows(energySupply, postConsumer.energy),
+      },
+    };
+  });
+  const blendFlows = (route: "primary" | "preConsumer" | "postConsumer") =>
+    elements.reduce((total, element) => addFlows(total, element.flows[route], element.fraction), {} as ElementaryFlows);
+  const blend = (route: "primary" | "preConsumer" | "postConsumer") =>
+    elements.reduce(
+      (total, element) => mapImpacts(total, (value, impact) => value + element.fraction * element[route][impact]),
+      zeroImpacts(),
+    );
+  const virgin = blend("primary");
+  const preConsumer = blend("preConsumer");
+  const postConsumer = blend("postConsumer");
+  const burdens: AllocationBurdens = {
+    virgin,
+    recycledInput:
+      r1 > 0
+        ? mapImpacts(preConsumer, (value, impact) => (shares.preConsumer * value + shares.postConsumer * postConsumer[impact]) / r1)
+        : postConsumer,
+    recyclingEoL: postConsumer,
+    disposal: getImpactFactors(database, "landfill"),
+  };
+
+  const allocation = resolveAllocationParameters(
+    inputs.allocationMethod,
+    getDefaultAllocationParameters(inputs),
+    inputs.cffParameters,
+  );
+  const allocated = allocateRecycling(burdens, allocation);
+
+  // Production carries the physical burden of the feedstock blend; how much of the
+  // scrap's primary origin is charged back is the allocation method's choice
+  const perKgProduction = mapImpacts(virgin, (value, impact) => value * (1 - r1) + burdens.recycledInput[impact] * r1);
+  // Each alloying element carries its share of the blended production burden
+  const production: ImpactContribution[] = elements.map((element) => ({
+    stage: elements.length > 1 ? `Production · ${element.label} (${(element.fraction * 100).toFixed(1)}%)` : "Production",
+    category: "production",
+    impacts: mapImpacts(
+      element.primary,
+      (value, impact) =>
+        element.fraction *
+        inputs.quantity *
+        (shares.primary * value +
+          shares.preConsumer * element.preConsumer[impact] +
+          shares.postConsumer * element.postConsumer[impact]),
+    ),
+  }));
+  // Primary mass runs through each element's unit processes; scrap is remelted
+  const stageBreakdown = new Map<string, StageResult>();
+  const addStage = (id: string, label: string, impacts: ImpactTotals) => {
+    const existing = stageBreakdown.get(id);
+    stageBreakdown.set(id, {
+      id,
+      label,
+      impacts: existing ? mapImpacts(existing.impacts, (value, impact) => value + impacts[impact]) : impacts,
+    });
+  };
+  elements.forEach((element) => {
+    const primaryMass = element.fraction * shares.primary * inputs.quantity;
+    if (element.stages) {
+      element.stages.forEach((stage) => addStage(stage.id, stage.label, mapImpacts(stage.impacts, (value) => value * primaryMass)));
+    } else {
+      addStage(`${element.label}-primary`, `${element.label} primary production`, mapImpacts(element.primary, (value) => value * primaryMass));
+    }
+  });
+  addStage(
+    "remelting",
+    "Scrap remelting",
+    elements.reduce(
+      (total, element) =>
+        mapImpacts(
+          total,
+          (value, impact) =>
+            value +
+            element.fraction *
+              inputs.quantity *
+              (shares.preConsumer * element.preConsumer[impact] + shares.postConsumer * element.postConsumer[impact]),
+        ),
+      zeroImpacts(),
+    ),
+  );
+
+  const scrapAllocation = mapImpacts(allocated.material, (value, impact) => (value - perKgProduction[impact]) * inputs.quantity);
+  const endOfLife = mapImpacts(allocated.endOfLife, (value) => value * inputs.quantity);
+
+  const transportLegs: ImpactContribution[] = inputs.transportLegs.map((leg) => ({
+    stage: leg.label,
+    category: "transport",
+    impacts: scale(calculateLegTransport(leg, inputs.quantity, inputs), "transportIntensity"),
+  }));
+
+  const contributions: ImpactContribution[] = [
+    ...production,
+    ...(Object.values(scrapAllocation).some((value) => Math.abs(value) > 1e-9)
+      ? [{ stage: "Scrap Input Allocation", category: "endOfLife" as const, impacts: scrapAllocation }]
+      : []),
+    ...transportLegs,
+    { stage: "End of Life", category: "endOfLife", impacts: endOfLife },
+  ];
+
+  const recycledContent = (shares.preConsumer + shares.postConsumer) * 100;
+  const collectionRate = getCollectionRate(inputs);
+  const recoveryRate = collectionRate * metal.recyclingYield * 100;
+  const mci = calculateMCI({
+    mass: inputs.quantity,
+    recycledFeedstock: r1,
+    reusedFeedstock: 0,
+    recyclingCollection: collectionRate,
+    reuseCollection: 0,
+    feedstockRecyclingEfficiency: metal.recyclingYield,
+    eolRecyclingEfficiency: metal.recyclingYield,
+    lifetimeRatio: inputs.circularityParameters?.lifetimeRatio ?? defaultCircularityParameters.lifetimeRatio,
+    usageIntensityRatio:
+      inputs.circularityParameters?.usageIntensityRatio ?? defaultCircularityParameters.usageIntensityRatio,
+  });
+
+  const lci = solveProductSystem(
+    buildProductSystem({
+      shares,
+      virgin: { ...blendFlows("primary"), ...virgin },
+      preConsumer: { ...blendFlows("preConsumer"), ...preConsumer },
+      postConsumer: { ...blendFlows("postConsumer"), ...postConsumer },
+      collectionRate,
+      recyclingYield: metal.recyclingYield,
+    }),
+    { product: FUNCTIONAL_PRODUCT, amount: inputs.quantity },
+  );
+
+  // Midpoint categories follow the physical flows of the solved system plus transport;
+  // the allocation method only redistributes the headline CO₂, energy and water
+  const categories = characterize(
+    inputs.transportLegs.reduce(
+      (flows, leg) => addFlows(flows, calculateLegFlows(leg, inputs.quantity, inputs), factor("transportIntensity")),
+      lci.inventory as ElementaryFlows,
+    ),
+    database,
+  );
+
+  const dataQuality = assessDataQuality(getParameterPedigrees(inputs), {
+    primaryBurden: shares.primary * inputs.quantity * virgin.co2,
+    secondaryBurden: r1 * inputs.quantity * burdens.recycledInput.co2,
+    gridIntensity:
+      inputs.quantity *
+      elements.reduce(
+        (sum, element) =>
+          sum +
+          element.fraction *
+            (shares.primary * element.electricityCo2 +
+              shares.preConsumer * element.preConsumer.co2 +
+              shares.postConsumer * element.postConsumer.co2),
+        0,
+      ),
+    transportIntensity: sumImpacts(transportLegs).co2,
+  });
+
+  const materialCost =
+    inputs.quantity * (shares.primary * metal.primaryPrice + (1 - shares.primary) * metal.secondaryPrice);
+
+  return {
+    inputs: scenarioInputs,
+    inventory: buildInventory(inputs, lci, energySupply),
+    lci,
+    impacts: sumImpacts(contributions),
+    categories,
+    dataQuality,
+    factorDatabase: getFactorDatabaseRelease(inputs.factorDatabase),
+    contributions,
+    stages: [...stageBreakdown.values()].filter(({ impacts }) => impacts.co2 !== 0 || impacts.energy !== 0),
+    energySupply,
+    allocation: {
+      method: inputs.allocationMethod,
+      label: allocationMethods[inputs.allocationMethod].label,
+      parameters: allocation,
+    },
+    circularity: {
+      recycledContent,
+      preConsumerContent: shares.preConsumer * 100,
+      postConsumerContent: shares.postConsumer * 100,
+      materialQuality: (1 - shares.postConsumer * POST_CONSUMER_QUALITY_LOSS) * 100,
+      recoveryRate,
+      linearFlowShare: mci.linearFlowIndex * 100,
+      circularityIndex: mci.mci * 100,
+      mci,
+      materialLoops: recoveryRate > 0 ? 1 : 0,
+    },
+    cost: {
+      materialCost,
+      costSavings: inputs.quantity * metal.primaryPrice - materialCost,
+    },
+  };
+};
+
+/** Percentage reduction of each impact relative to a baseline result (positive = better). */
+export const compareToBaseline = (result: LCAResult, baseline: LCAResult): ImpactTotals => {
+  const reduction = (value: number, base: number) => (base > 0 ? ((base - value) / base) * 100 : 0);
+  return {
+    co2: reduction(result.impacts.co2, baseline.impacts.co2),
+    energy: reduction(result.impacts.energy, baseline.impacts.energy),
+    water: reduction(result.impacts.water, baseline.impacts.water),
+  };
+};
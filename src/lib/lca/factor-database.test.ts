@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { factorDatabases, getFactorDatabase, getFactorPedigrees, getFactors, LATEST_FACTOR_DATABASE } from "./factor-database";
+import { setFactorLibrary } from "./factor-library";
+
+const latest = factorDatabases[0];
+const bundled = latest.factors.find(({ id }) => id === "aluminum.primary.co2");
+
+afterEach(() => setFactorLibrary({ factors: [], audit: [] }));
+
+describe("getFactors", () => {
+  it("reads a factor's value from the release", () => {
+    expect(getFactors(LATEST_FACTOR_DATABASE)("aluminum.primary.co2")).toBe(bundled.value);
+    expect(getFactors("2021.1")("aluminum.primary.co2")).not.toBe(bundled.value);
+  });
+
+  it("throws for a missing id unless given a fallback", () => {
+    const factors = getFactors(LATEST_FACTOR_DATABASE);
+    expect(() => factors("aluminium.primary.co2")).toThrow(
+      `Factor "aluminium.primary.co2" is missing from factor database ${LATEST_FACTOR_DATABASE}`,
+    );
+    expect(factors("aluminium.primary.co2", 0)).toBe(0);
+  });
+
+  it("reads the library's factors over the latest release, but not over a named one", () => {
+    setFactorLibrary({ factors: [{ ...bundled, value: 99, pedigree: [4, 4, 4, 4, 4] }], audit: [] });
+    expect(getFactors()("aluminum.primary.co2")).toBe(99);
+    expect(getFactorPedigrees()("aluminum.primary.co2")).toEqual([4, 4, 4, 4, 4]);
+    expect(getFactors(LATEST_FACTOR_DATABASE)("aluminum.primary.co2")).toBe(bundled.value);
+  });
+});
+
+describe("getFactorDatabase", () => {
+  it("is the latest release itself until the library has factors", () => {
+    expect(getFactorDatabase()).toBe(latest);
+    setFactorLibrary({ factors: [{ ...bundled, value: 99 }], audit: [] });
+    expect(getFactorDatabase()).toMatchObject({ version: "local", basedOn: latest.version });
+    expect(getFactorDatabase().factors).toHaveLength(latest.factors.length);
+  });
+
+  it("refuses a version it does not have", () => {
+    expect(() => getFactorDatabase("1999.1")).toThrow('Unknown factor database version "1999.1"');
+  });
+});
@@ -0,0 +1,672 @@
+import { impactCategories, impactCategoryIds, mineralDepletionFactors } from "./characterization";
+import { getFactorLibrary, mergeLibraryFactors } from "./factor-library";
+import type {
+  EmissionFactor,
+  ElementaryFlowId,
+  FactorDatabase,
+  FactorDatabaseRelease,
+  FactorLibrary,
+  ImpactTotals,
+  PedigreeScore,
+} from "./types";
+
+type Provenance = Pick<EmissionFactor, "source" | "year" | "geography" | "licence">;
+
+interface ElementData {
+  label: string;
+  primary: ImpactTotals; // per kg of primary metal
+  preConsumer: ImpactTotals; // per kg remelted from process scrap
+  postConsumer: ImpactTotals; // per kg recovered from end-of-life scrap
+  primarySource: Provenance;
+  secondarySource: Provenance;
+  primaryPedigree: PedigreeScore;
+  secondaryPedigree: PedigreeScore; // of both remelting routes
+}
+
+// Everything one release holds, before it is flattened into individual factors
+interface ReleaseData {
+  elements: Record<string, ElementData>;
+  energy: Record<string, { label: string; intensity: number; pedigree: PedigreeScore }>; // g CO₂-eq/kWh, grid excluded
+  energySource: Provenance;
+  grid: Record<string, number>; // g CO₂-eq/kWh by grid region id
+  gridSource: { national: Omit<Provenance, "geography">; subnational: Omit<Provenance, "geography"> };
+  gridPedigree: PedigreeScore;
+  transport: Record<string, { label: string; co2: number; energy: number }>; // per tkm, keyed "mode.fuel"
+  transportSource: Provenance;
+  transportPedigree: Record<string, PedigreeScore>; // by mode
+  landfill: ImpactTotals; // per kg of metal
+  landfillSource: Provenance;
+  landfillPedigree: PedigreeScore;
+}
+
+const ATTRIBUTION = "Published summary data, free to use with attribution";
+const ECOINVENT_LICENCE = "ecoinvent EULA: aggregated indicator results only, unit process data not redistributed";
+
+const ecoinvent = (version: string, year: number): Provenance => ({
+  source: `ecoinvent ${version}, cut-off system model`,
+  year,
+  geography: "GLO",
+  licence: ECOINVENT_LICENCE,
+});
+
+const ECOINVENT_3_9_1 = ecoinvent("3.9.1", 2020);
+const ECOINVENT_3_7_1 = ecoinvent("3.7.1", 2018);
+
+const association = (source: string, year: number, geography = "GLO"): Provenance => ({
+  source,
+  year,
+  geography,
+  licence: ATTRIBUTION,
+});
+
+const elements2024: Record<string, ElementData> = {
+  aluminum: {
+    label: "Aluminum",
+    primary: { co2: 11.9, energy: 170, water: 1550 },
+    preConsumer: { co2: 0.6, energy: 6.8, water: 310 },
+    postConsumer: { co2: 0.95, energy: 10.2, water: 465 },
+    primarySource: association("International Aluminium Institute, primary aluminium LCI (2019 data)", 2019),
+    secondarySource: association("European Aluminium, Environmental Profile Report (2015 data)", 2015, "RER"),
+    primaryPedigree: [2, 1, 2, 2, 1],
+    secondaryPedigree: [2, 2, 2, 3, 2],
+  },
+  copper: {
+    label: "Copper",
+    primary: { co2: 4.2, energy: 65, water: 440 },
+    preConsumer: { co2: 0.21, energy: 2.6, water: 88 },
+    postConsumer: { co2: 0.34, energy: 3.9, water: 132 },
+    primarySource: association("International Copper Association, copper cathode LCA (2018 data)", 2018),
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [2, 2, 3, 3, 2],
+    secondaryPedigree: [3, 3, 3, 3, 2],
+  },
+  steel: {
+    label: "Steel",
+    primary: { co2: 2.3, energy: 22, water: 30 },
+    preConsumer: { co2: 0.4, energy: 6, water: 5 },
+    postConsumer: { co2: 0.6, energy: 9, water: 8 },
+    primarySource: association("worldsteel, steel LCI study (2020 data)", 2020),
+    secondarySource: association("worldsteel, steel LCI study (2020 data)", 2020),
+    primaryPedigree: [2, 1, 2, 2, 2],
+    secondaryPedigree: [2, 2, 2, 3, 2],
+  },
+  stainless: {
+    label: "Stainless Steel",
+    primary: { co2: 6.1, energy: 75, water: 120 },
+    preConsumer: { co2: 1.5, energy: 20, water: 40 },
+    postConsumer: { co2: 1.9, energy: 25, water: 50 },
+    primarySource: association("ISSF, stainless steel LCI (2019 data)", 2019),
+    secondarySource: association("ISSF, stainless steel LCI (2019 data)", 2019),
+    primaryPedigree: [2, 2, 3, 3, 2],
+    secondaryPedigree: [3, 3, 3, 3, 2],
+  },
+  zinc: {
+    label: "Zinc",
+    primary: { co2: 3.6, energy: 50, water: 300 },
+    preConsumer: { co2: 0.5, energy: 10, water: 60 },
+    postConsumer: { co2: 0.8, energy: 14, water: 80 },
+    primarySource: association("International Zinc Association, SHG zinc LCA (2019 data)", 2019),
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [2, 2, 3, 3, 2],
+    secondaryPedigree: [3, 3, 3, 3, 3],
+  },
+  nickel: {
+    label: "Nickel",
+    primary: { co2: 13, energy: 190, water: 1200 },
+    preConsumer: { co2: 2.0, energy: 30, water: 200 },
+    postConsumer: { co2: 2.6, energy: 40, water: 250 },
+    primarySource: association("Nickel Institute, class 1 nickel LCA (2017 data)", 2017),
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [2, 2, 3, 3, 2],
+    secondaryPedigree: [3, 3, 3, 3, 3],
+  },
+  lead: {
+    label: "Lead",
+    primary: { co2: 1.8, energy: 25, water: 150 },
+    preConsumer: { co2: 0.35, energy: 6, water: 30 },
+    postConsumer: { co2: 0.5, energy: 8, water: 40 },
+    primarySource: association("International Lead Association, lead LCA (2018 data)", 2018),
+    secondarySource: association("International Lead Association, lead LCA (2018 data)", 2018),
+    primaryPedigree: [3, 2, 3, 3, 2],
+    secondaryPedigree: [3, 3, 3, 3, 3],
+  },
+  titanium: {
+    label: "Titanium",
+    primary: { co2: 35, energy: 600, water: 2000 },
+    preConsumer: { co2: 8, energy: 120, water: 400 },
+    postConsumer: { co2: 10, energy: 150, water: 500 },
+    primarySource: ECOINVENT_3_9_1,
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 3, 3, 4, 3],
+    secondaryPedigree: [4, 3, 4, 4, 3],
+  },
+  lithium: {
+    label: "Lithium",
+    primary: { co2: 15, energy: 250, water: 3000 },
+    preConsumer: { co2: 5, energy: 80, water: 900 },
+    postConsumer: { co2: 6.5, energy: 100, water: 1200 },
+    primarySource: ECOINVENT_3_9_1,
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 3, 2, 4, 3],
+    secondaryPedigree: [4, 4, 2, 4, 4],
+  },
+  cobalt: {
+    label: "Cobalt",
+    primary: { co2: 10, energy: 130, water: 1500 },
+    preConsumer: { co2: 2.5, energy: 35, water: 300 },
+    postConsumer: { co2: 3, energy: 40, water: 350 },
+    primarySource: association("Cobalt Institute, cobalt LCA (2019 data)", 2019),
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 3, 3, 4, 3],
+    secondaryPedigree: [4, 4, 3, 4, 3],
+  },
+  tin: {
+    label: "Tin",
+    primary: { co2: 16, energy: 300, water: 2000 },
+    preConsumer: { co2: 1.5, energy: 20, water: 200 },
+    postConsumer: { co2: 2, energy: 28, water: 280 },
+    primarySource: ECOINVENT_3_9_1,
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 3, 4, 4, 3],
+    secondaryPedigree: [4, 4, 4, 4, 3],
+  },
+  magnesium: {
+    label: "Magnesium",
+    primary: { co2: 25, energy: 330, water: 1500 },
+    preConsumer: { co2: 2, energy: 25, water: 150 },
+    postConsumer: { co2: 2.5, energy: 30, water: 200 },
+    primarySource: ECOINVENT_3_9_1,
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 2, 3, 3, 3],
+    secondaryPedigree: [4, 3, 3, 4, 3],
+  },
+  silicon: {
+    label: "Silicon",
+    primary: { co2: 6.5, energy: 150, water: 400 },
+    preConsumer: { co2: 1.5, energy: 30, water: 100 },
+    postConsumer: { co2: 2, energy: 40, water: 130 },
+    primarySource: ECOINVENT_3_9_1,
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 3, 3, 3, 3],
+    secondaryPedigree: [4, 4, 3, 4, 3],
+  },
+  chromium: {
+    label: "Chromium",
+    primary: { co2: 7, energy: 90, water: 500 },
+    preConsumer: { co2: 2, energy: 25, water: 150 },
+    postConsumer: { co2: 2.5, energy: 30, water: 180 },
+    primarySource: ECOINVENT_3_9_1,
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 3, 3, 4, 3],
+    secondaryPedigree: [4, 4, 3, 4, 3],
+  },
+  manganese: {
+    label: "Manganese",
+    primary: { co2: 6, energy: 60, water: 300 },
+    preConsumer: { co2: 1.5, energy: 15, water: 80 },
+    postConsumer: { co2: 2, energy: 20, water: 100 },
+    primarySource: ECOINVENT_3_9_1,
+    secondarySource: ECOINVENT_3_9_1,
+    primaryPedigree: [3, 3, 3, 4, 3],
+    secondaryPedigree: [4, 4, 3, 4, 3],
+  },
+};
+
+// Life-cycle medians per technology
+const energy: ReleaseData["energy"] = {
+  coal: { label: "Coal", intensity: 820, pedigree: [2, 2, 2, 3, 2] },
+  gas: { label: "Natural gas", intensity: 490, pedigree: [2, 2, 2, 3, 2] },
+  hydro: { label: "Hydro", intensity: 24, pedigree: [3, 3, 3, 4, 3] },
+  solar: { label: "Solar", intensity: 48, pedigree: [2, 2, 2, 3, 2] },
+  wind: { label: "Wind", intensity: 12, pedigree: [2, 2, 2, 3, 2] },
+  nuclear: { label: "Nuclear", intensity: 12, pedigree: [3, 3, 3, 3, 2] },
+};
+
+const IPCC_AR5 = association("IPCC AR5 WGIII, Annex III life-cycle emissions of electricity supply", 2014);
+
+// Consumption-based life-cycle intensities, rounded
+const gridSource = (year: number): ReleaseData["gridSource"] => ({
+  national: {
+    source: `Ember and IEA electricity statistics (${year} reporting year)`,
+    year,
+    licence: "CC BY 4.0 (Ember); IEA-derived values used under the IEA terms of use",
+  },
+  subnational: {
+    source: `Provincial and state grid operator disclosures (${year} reporting year)`,
+    year,
+    licence: ATTRIBUTION,
+  },
+});
+
+const grid2023: Record<string, number> = {
+  WORLD: 480,
+  AU: 530,
+  "AU-NSW": 650,
+  "AU-QLD": 730,
+  "AU-TAS": 150,
+  BH: 600,
+  BR: 100,
+  CA: 130,
+  "CA-AB": 540,
+  "CA-BC": 15,
+  "CA-ON": 30,
+  "CA-QC": 2,
+  CL: 300,
+  CN: 560,
+  "CN-NM": 750,
+  "CN-SC": 120,
+  "CN-SD": 700,
+  "CN-XJ": 650,
+  "CN-YN": 110,
+  FR: 56,
+  DE: 380,
+  IS: 28,
+  IN: 710,
+  "IN-CT": 950,
+  "IN-GJ": 680,
+  "IN-KA": 450,
+  "IN-OR": 900,
+  ID: 680,
+  JP: 480,
+  KR: 430,
+  MY: 600,
+  MX: 420,
+  NO: 30,
+  PL: 660,
+  QA: 490,
+  RU: 360,
+  SA: 560,
+  ZA: 900,
+  SE: 40,
+  AE: 420,
+  GB: 210,
+  US: 370,
+  "US-CA": 200,
+  "US-OH": 510,
+  "US-TX": 390,
+  "US-WA": 90,
+  "US-WV": 880,
+  VN: 480,
+};
+
+const grid2019: Record<string, number> = {
+  ...grid2023,
+  WORLD: 490,
+  AU: 660,
+  "AU-NSW": 790,
+  "AU-QLD": 820,
+  "AU-TAS": 160,
+  BH: 620,
+  BR: 110,
+  CA: 140,
+  "CA-AB": 690,
+  "CA-ON": 35,
+  CL: 400,
+  CN: 610,
+  "CN-NM": 800,
+  "CN-SC": 130,
+  "CN-SD": 760,
+  "CN-XJ": 700,
+  "CN-YN": 120,
+  FR: 60,
+  DE: 420,
+  IN: 740,
+  "IN-CT": 970,
+  "IN-GJ": 720,
+  "IN-KA": 520,
+  "IN-OR": 920,
+  ID: 700,
+  JP: 510,
+  KR: 470,
+  MY: 620,
+  MX: 450,
+  PL: 760,
+  RU: 370,
+  SA: 580,
+  ZA: 920,
+  SE: 45,
+  AE: 440,
+  GB: 260,
+  US: 420,
+  "US-CA": 230,
+  "US-OH": 580,
+  "US-TX": 430,
+  "US-WA": 100,
+  "US-WV": 900,
+  VN: 500,
+};
+
+// Well-to-wheel factors at each mode's reference load factor
+const transport2024: ReleaseData["transport"] = {
+  "truck.diesel": { label: "Truck, diesel", co2: 0.105, energy: 1.4 },
+  "truck.lng": { label: "Truck, LNG", co2: 0.092, energy: 1.55 },
+  "truck.electric": { label: "Truck, battery electric", co2: 0.035, energy: 0.5 },
+  "rail.diesel": { label: "Rail, diesel", co2: 0.028, energy: 0.36 },
+  "rail.electric": { label: "Rail, electric", co2: 0.012, energy: 0.2 },
+  "ship.diesel": { label: "Ship, marine diesel", co2: 0.011, energy: 0.15 },
+  "ship.lng": { label: "Ship, LNG", co2: 0.0095, energy: 0.16 },
+};
+
+const glec = (version: string, year: number) =>
+  association(`Smart Freight Centre, GLEC Framework ${version}`, year);
+
+const release2024: ReleaseData = {
+  elements: elements2024,
+  energy,
+  energySource: IPCC_AR5,
+  grid: grid2023,
+  gridSource: gridSource(2023),
+  // Statistics-based and region-specific, so geography and time score well
+  gridPedigree: [2, 1, 2, 1, 2],
+  transport: transport2024,
+  transportSource: glec("v3", 2023),
+  transportPedigree: { truck: [2, 2, 2, 3, 2], rail: [2, 2, 2, 3, 2], ship: [2, 2, 2, 2, 2] },
+  landfill: { co2: 0.005, energy: 0.1, water: 0.2 },
+  landfillSource: ECOINVENT_3_9_1,
+  landfillPedigree: [3, 3, 3, 4, 3],
+};
+
+// The 2021 release predates the IAI 2019, ICA 2018 and IZA 2019 updates, so its older
+// primary data score worse on time
+const release2021: ReleaseData = {
+  ...release2024,
+  elements: {
+    ...Object.fromEntries(
+      Object.entries(elements2024).map(([id, element]) => [
+        id,
+        {
+          ...element,
+          primarySource: element.primarySource === ECOINVENT_3_9_1 ? ECOINVENT_3_7_1 : element.primarySource,
+          secondarySource: element.secondarySource === ECOINVENT_3_9_1 ? ECOINVENT_3_7_1 : element.secondarySource,
+        },
+      ]),
+    ),
+    aluminum: {
+      ...elements2024.aluminum,
+      primary: { co2: 12.6, energy: 178, water: 1620 },
+      primarySource: association("International Aluminium Institute, primary aluminium LCI (2015 data)", 2015),
+      primaryPedigree: [2, 1, 3, 2, 1],
+    },
+    copper: {
+      ...elements2024.copper,
+      primary: { co2: 4.6, energy: 70, water: 460 },
+      primarySource: association("International Copper Association, copper cathode LCA (2013 data)", 2013),
+      primaryPedigree: [2, 2, 4, 3, 2],
+      secondarySource: ECOINVENT_3_7_1,
+    },
+    steel: {
+      ...elements2024.steel,
+      primary: { co2: 2.4, energy: 23, water: 32 },
+      preConsumer: { co2: 0.42, energy: 6.2, water: 5 },
+      postConsumer: { co2: 0.63, energy: 9.4, water: 8 },
+      primarySource: association("worldsteel, steel LCI study (2017 data)", 2017),
+      primaryPedigree: [2, 1, 3, 2, 2],
+      secondarySource: association("worldsteel, steel LCI study (2017 data)", 2017),
+    },
+    zinc: {
+      ...elements2024.zinc,
+      primary: { co2: 3.9, energy: 53, water: 320 },
+      primarySource: association("International Zinc Association, SHG zinc LCA (2012 data)", 2012),
+      primaryPedigree: [2, 2, 4, 3, 2],
+      secondarySource: ECOINVENT_3_7_1,
+    },
+    cobalt: {
+      ...elements2024.cobalt,
+      primary: { co2: 11, energy: 140, water: 1600 },
+      primarySource: ECOINVENT_3_7_1,
+      secondarySource: ECOINVENT_3_7_1,
+    },
+  },
+  grid: grid2019,
+  gridSource: gridSource(2019),
+  transport: {
+    "truck.diesel": { label: "Truck, diesel", co2: 0.11, energy: 1.45 },
+    "truck.lng": { label: "Truck, LNG", co2: 0.098, energy: 1.6 },
+    "truck.electric": { label: "Truck, battery electric", co2: 0.045, energy: 0.55 },
+    "rail.diesel": { label: "Rail, diesel", co2: 0.03, energy: 0.38 },
+    "rail.electric": { label: "Rail, electric", co2: 0.015, energy: 0.22 },
+    "ship.diesel": { label: "Ship, marine diesel", co2: 0.012, energy: 0.16 },
+    "ship.lng": { label: "Ship, LNG", co2: 0.01, energy: 0.17 },
+  },
+  transportSource: glec("v2", 2019),
+  landfillSource: ECOINVENT_3_7_1,
+};
+
+const impactLabels: Record<keyof ImpactTotals, string> = {
+  co2: "climate change",
+  energy: "primary energy",
+  water: "water use",
+};
+
+const impactUnits: Record<keyof ImpactTotals, string> = {
+  co2: "kg CO₂-eq/kg",
+  energy: "MJ/kg",
+  water: "L/kg",
+};
+
+const routeLabels = {
+  primary: "primary production",
+  preConsumer: "remelting of pre-consumer scrap",
+  postConsumer: "remelting of post-consumer scrap",
+};
+
+const impactFactors = (
+  id: string,
+  category: EmissionFactor["category"],
+  label: string,
+  values: ImpactTotals,
+  provenance: Provenance,
+  pedigree: PedigreeScore,
+): EmissionFactor[] =>
+  (Object.keys(impactLabels) as (keyof ImpactTotals)[]).map((impact) => ({
+    id: `${id}.${impact}`,
+    category,
+    label: `${label} · ${impactLabels[impact]}`,
+    value: values[impact],
+    unit: impactUnits[impact],
+    ...provenance,
+    pedigree,
+  }));
+
+const EF_3_1: Provenance = {
+  source: "European Commission JRC, Environmental Footprint 3.1 characterization factors",
+  year: 2022,
+  geography: "GLO",
+  licence: "Reuse authorised with acknowledgement of the source (Commission Decision 2011/833/EU)",
+};
+
+// A current, global consensus model rather than measured data
+const EF_3_1_PEDIGREE: PedigreeScore = [2, 2, 1, 1, 2];
+
+const flowUnit = (flow: ElementaryFlowId) =>
+  flow === "landOccupation" ? "m²·a" : flow === "fossilEnergy" ? "MJ" : "kg";
+
+// The impact method is independent of the inventory data, so every release carries EF 3.1
+const characterizationFactors: EmissionFactor[] = impactCategoryIds.flatMap((category) => {
+  const { label, unit, factors } = impactCategories[category];
+  const entries: [ElementaryFlowId, number][] =
+    category === "mineralDepletion"
+      ? Object.entries(mineralDepletionFactors).map(([element, value]) => [`resource:${element}` as ElementaryFlowId, value])
+      : (Object.entries(factors) as [ElementaryFlowId, number][]);
+  return entries.map(([flow, value]) => ({
+    id: `characterization.${category}.${flow}`,
+    category: "characterization" as const,
+    label: `${label} · ${flow}`,
+    value,
+    unit: `${unit}/${flowUnit(flow)}`,
+    ...EF_3_1,
+    pedigree: EF_3_1_PEDIGREE,
+  }));
+});
+
+const flattenRelease = (release: FactorDatabaseRelease, data: ReleaseData): FactorDatabase => ({
+  ...release,
+  factors: [
+    ...Object.entries(data.elements).flatMap(([element, entry]) =>
+      (Object.keys(routeLabels) as (keyof typeof routeLabels)[]).flatMap((route) =>
+        impactFactors(
+          `${element}.${route}`,
+          "metal",
+          `${entry.label}, ${routeLabels[route]}`,
+          entry[route],
+          route === "primary" ? entry.primarySource : entry.secondarySource,
+          route === "primary" ? entry.primaryPedigree : entry.secondaryPedigree,
+        ),
+      ),
+    ),
+    ...Object.entries(data.energy).map(([source, { label, intensity, pedigree }]) => ({
+      id: `energy.${source}`,
+      category: "energy" as const,
+      label: `${label} electricity`,
+      value: intensity,
+      unit: "g CO₂-eq/kWh",
+      ...data.energySource,
+      pedigree,
+    })),
+    ...Object.entries(data.grid).map(([region, intensity]) => ({
+      id: `grid.${region}`,
+      category: "grid" as const,
+      label: `Grid electricity, ${region === "WORLD" ? "world average" : region}`,
+      value: intensity,
+      unit: "g CO₂-eq/kWh",
+      ...(region.includes("-") ? data.gridSource.subnational : data.gridSource.national),
+      geography: region === "WORLD" ? "GLO" : region,
+      pedigree: data.gridPedigree,
+    })),
+    ...Object.entries(data.transport).flatMap(([key, { label, co2, energy }]) => {
+      const pedigree = data.transportPedigree[key.split(".")[0]];
+      return [
+        {
+          id: `transport.${key}.co2`,
+          category: "transport" as const,
+          label: `${label} · climate change`,
+          value: co2,
+          unit: "kg CO₂-eq/tkm",
+          ...data.transportSource,
+          pedigree,
+        },
+        {
+          id: `transport.${key}.energy`,
+          category: "transport" as const,
+          label: `${label} · primary energy`,
+          value: energy,
+          unit: "MJ/tkm",
+          ...data.transportSource,
+          pedigree,
+        },
+      ];
+    }),
+    ...impactFactors("landfill", "endOfLife", "Landfill of metal", data.landfill, data.landfillSource, data.landfillPedigree),
+    ...characterizationFactors,
+  ],
+});
+
+// Newest first. Releases are never edited once published so older studies stay reproducible.
+export const factorDatabases: FactorDatabase[] = [
+  flattenRelease(
+    {
+      version: "2024.1",
+      released: "2024-03-15",
+      notes: "IAI 2019, ICA 2018 and IZA 2019 primary data, 2023 grid intensities, GLEC Framework v3",
+    },
+    release2024,
+  ),
+  flattenRelease(
+    {
+      version: "2021.1",
+      released: "2021-06-30",
+      notes: "IAI 2015 and ICA 2013 primary data, 2019 grid intensities, GLEC Framework v2",
+    },
+    release2021,
+  ),
+];
+
+export const LATEST_FACTOR_DATABASE = factorDatabases[0].version;
+
+// The latest release with the analyst's factor library applied on top
+export const LOCAL_FACTOR_DATABASE = "local";
+
+let localDatabase: { library: FactorLibrary; database: FactorDatabase } | undefined;
+
+const getLocalDatabase = (): FactorDatabase => {
+  const library = getFactorLibrary();
+  const base = factorDatabases[0];
+  // Without local factors the result is the release itself and is recorded as such
+  if (library.factors.length === 0) return base;
+  if (localDatabase?.library !== library) {
+    const lastChange = library.audit[library.audit.length - 1];
+    localDatabase = {
+      library,
+      database: {
+        version: LOCAL_FACTOR_DATABASE,
+        released: lastChange ? lastChange.timestamp.slice(0, 10) : base.released,
+        notes: `${base.version} with ${library.factors.length} local factor${library.factors.length === 1 ? "" : "s"}`,
+        basedOn: base.version,
+        factors: mergeLibraryFactors(base.factors, library.factors),
+      },
+    };
+  }
+  return localDatabase.database;
+};
+
+/**
+ * The release with the given version. Unset means the latest release with the
+ * local factor library on top, which is what new studies should use.
+ */
+export const getFactorDatabase = (version: string = LOCAL_FACTOR_DATABASE): FactorDatabase => {
+  if (version === LOCAL_FACTOR_DATABASE) return getLocalDatabase();
+  const database = factorDatabases.find((entry) => entry.version === version);
+  if (!database) {
+    throw new Error(`Unknown factor database version "${version}"`);
+  }
+  return database;
+};
+
+export const getFactorDatabaseRelease = (version?: string): FactorDatabaseRelease => {
+  const { factors, ...release } = getFactorDatabase(version);
+  return release;
+};
+
+// Reads one factor value by id; missing ids throw unless a fallback is given
+export type FactorLookup = (id: string, fallback?: number) => number;
+
+const lookups = new WeakMap<FactorDatabase, FactorLookup>();
+
+/** Value lookup for one release, built once per database since the engine reads it on every run. */
+export const getFactors = (version?: string): FactorLookup => {
+  const database = getFactorDatabase(version);
+  let lookup = lookups.get(database);
+  if (!lookup) {
+    const values = new Map(database.factors.map((factor) => [factor.id, factor.value]));
+    lookup = (id, fallback) => {
+      const value = values.get(id) ?? fallback;
+      if (value === undefined) {
+        throw new Error(`Factor "${id}" is missing from factor database ${database.version}`);
+      }
+      return value;
+    };
+    lookups.set(database, lookup);
+  }
+  return lookup;
+};
+
+const pedigreeLookups = new WeakMap<FactorDatabase, (id: string) => PedigreeScore | undefined>();
+
+/** Pedigree lookup for one release; undefined for a missing id or a local factor saved without a score. */
+export const getFactorPedigrees = (version?: string): ((id: string) => PedigreeScore | undefined) => {
+  const database = getFactorDatabase(version);
+  let lookup = pedigreeLookups.get(database);
+  if (!lookup) {
+    const pedigrees = new Map(database.factors.map((factor) => [factor.id, factor.pedigree]));
+    lookup = (id) => pedigrees.get(id);
+    pedigreeLookups.set(database, lookup);
+  }
+  return lookup;
+};
+
+/** CO₂, energy and water factors stored under one id prefix, e.g. "aluminum.primary". */
+export const getImpactFactors = (factors: FactorLookup, id: string): ImpactTotals => ({
+  co2: factors(`${id}.co2`),
+  energy: factors(`${id}.energy`),
+  water: factors(`${id}.water`),
+});
@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { SpreadsheetTable } from "@/lib/spreadsheet";
+import { factorDatabases } from "./factor-database";
+import {
+  convertFactorValue,
+  getEngineUnit,
+  getUnreadFactorWarning,
+  guessColumnMapping,
+  mergeFactorImport,
+  previewFactorImport,
+  unitConversion,
+} from "./factor-import";
+
+const factors = factorDatabases[0].factors;
+const primaryCo2 = factors.find(({ id }) => id === "aluminum.primary.co2");
+
+const table = (...rows: string[][]): SpreadsheetTable => ({
+  headers: ["Factor ID", "Value", "Unit", "Source"],
+  rows: rows.map((cells, index) => ({ number: index + 2, cells })),
+});
+
+// Fills the columns the test files leave out
+const defaults = { label: "Imported factor", source: "Test data", year: "2024", geography: "GLO", licence: "CC BY 4.0" };
+
+const preview = (...rows: string[][]) =>
+  previewFactorImport(table(...rows), guessColumnMapping(table().headers), defaults, factors);
+
+describe("guessColumnMapping", () => {
+  it("matches headers ignoring case and punctuation", () => {
+    expect(guessColumnMapping(["Factor ID", "Value", "Unit", "Source"])).toEqual({ id: 0, value: 1, unit: 2, source: 3 });
+  });
+});
+
+describe("unitConversion", () => {
+  it("converts between units of the same dimensions", () => {
+    expect(unitConversion("kg CO2e/t", "kg CO₂-eq/kg")).toBeCloseTo(1e-3);
+    expect(unitConversion("kg CO2-eq/MWh", "g CO₂-eq/kWh")).toBeCloseTo(1);
+    expect(unitConversion("g CO2/tkm", "kg CO₂-eq/tkm")).toBeCloseTo(1e-3);
+  });
+
+  it("refuses units that measure different things", () => {
+    expect(unitConversion("MJ/kg", "kg CO₂-eq/kg")).toBeUndefined();
+    expect(unitConversion("kg CO₂-eq/kWh", "kg CO₂-eq/kg")).toBeUndefined();
+  });
+});
+
+describe("convertFactorValue", () => {
+  it("restates a value in the engine's unit for the id", () => {
+    expect(getEngineUnit("grid.DE")).toBe("g CO₂-eq/kWh");
+    expect(convertFactorValue(380, "kg CO₂-eq/MWh", getEngineUnit("grid.DE"))).toBe(380);
+    expect(convertFactorValue(0.38, "kg CO₂-eq/kWh", getEngineUnit("grid.DE"))).toBe(380);
+    expect(convertFactorValue(1, "MJ/kWh", getEngineUnit("grid.DE"))).toBeUndefined();
+  });
+
+  it("keeps an existing factor's unit", () => {
+    expect(getEngineUnit("aluminum.primary.co2", primaryCo2)).toBe(primaryCo2.unit);
+  });
+});
+
+describe("getUnreadFactorWarning", () => {
+  it("flags ids the engine does not read", () => {
+    expect(getUnreadFactorWarning("aluminum.primary.co2")).toBeUndefined();
+    expect(getUnreadFactorWarning("characterization.acidification.so2")).toBeUndefined();
+    expect(getUnreadFactorWarning("aluminium.primary.co2")).toMatch(/no calculation reads it/);
+  });
+});
+
+describe("previewFactorImport", () => {
+  it("converts values to the engine's unit and classifies rows against the factors in use", () => {
+    const [conflict, unchanged] = preview(
+      ["aluminum.primary.co2", "12000", "kg CO2e/t", "Smelter survey"],
+      ["aluminum.primary.co2", String(primaryCo2.value), primaryCo2.unit, primaryCo2.source],
+    );
+    expect(conflict.status).toBe("conflict");
+    expect(conflict.factor.value).toBe(12);
+    expect(conflict.converted).toBe("12000 kg CO2e/t");
+    expect(conflict.differences).toContain("value");
+    // Repeats of an id are refused after the first
+    expect(unchanged.status).toBe("invalid");
+  });
+
+  it("reads thousands separators and decimal commas", () => {
+    const rows = preview(
+      ["grid.AA", "1,234.5", "kg CO2e/MWh"],
+      ["grid.BB", "1.234,5", "kg CO2e/MWh"],
+      ["grid.CC", "0,38", "kg CO2e/kWh"],
+      ["grid.DD", "1,234,567", "g CO2e/MWh"],
+    );
+    expect(rows.map(({ factor }) => factor?.value)).toEqual([1234.5, 1234.5, 380, 1234.567]);
+  });
+
+  it("refuses a value that could use either separator", () => {
+    const [row] = preview(["grid.AA", "1,234", "kg CO2e/MWh"]);
+    expect(row.status).toBe("invalid");
+    expect(row.errors[0]).toMatch(/1,234 could mean 1234 or 1\.234/);
+  });
+
+  it("refuses units that cannot be converted and implausible values", () => {
+    const [unit, range] = preview(["aluminum.primary.co2", "12", "MJ/kg"], ["aluminum.primary.co2", "90000", ""]);
+    expect(unit.errors[0]).toMatch(/cannot be converted/);
+    expect(range.errors[0]).toMatch(/plausible range/);
+  });
+
+  it("warns about ids the factor database does not have", () => {
+    const [typo, known] = preview(["aluminium.primary.co2", "12", ""], ["copper.primary.co2", "4", ""]);
+    expect(typo.status).toBe("new");
+    expect(typo.warnings[0]).toMatch(/not in the factor database/);
+    expect(known.warnings).toEqual([]);
+  });
+
+  it("reads a pedigree column and keeps an existing factor's pedigree when there is none", () => {
+    const scored = previewFactorImport(
+      {
+        headers: ["Id", "Value", "Pedigree"],
+        rows: [
+          { number: 2, cells: ["grid.AA", "380", "(2,1,3,2,1)"] },
+          { number: 3, cells: ["grid.BB", "380", "2 1 6"] },
+        ],
+      },
+      { id: 0, value: 1, pedigree: 2 },
+      defaults,
+      factors,
+    );
+    expect(scored[0].factor.pedigree).toEqual([2, 1, 3, 2, 1]);
+    expect(scored[1].errors[0]).toMatch(/not five scores from 1 to 5/);
+
+    const [kept] = preview(["aluminum.primary.co2", "12", primaryCo2.unit]);
+    expect(kept.factor.pedigree).toEqual(primaryCo2.pedigree);
+    expect(kept.differences).not.toContain("pedigree");
+  });
+});
+
+describe("mergeFactorImport", () => {
+  const rows = preview(["aluminum.primary.co2", "12", ""], ["grid.AA", "400", ""]);
+  const options = { fileName: "factors.csv", author: "Analyst", reason: "Update", overwrite: false };
+
+  it("adds new factors and keeps conflicting ones unless asked to overwrite", () => {
+    const { library, report } = mergeFactorImport({ factors: [], audit: [] }, rows, options);
+    expect(report.added).toEqual(["grid.AA"]);
+    expect(report.kept).toEqual(["aluminum.primary.co2"]);
+    expect(library.factors.map(({ id }) => id)).toEqual(["grid.AA"]);
+    expect(library.audit[0].reason).toBe("Update (factors.csv, row 3)");
+  });
+
+  it("replaces conflicting factors when asked", () => {
+    const { library, report } = mergeFactorImport({ factors: [], audit: [] }, rows, { ...options, overwrite: true });
+    expect(report.updated).toEqual(["aluminum.primary.co2"]);
+    expect(library.factors).toHaveLength(2);
+  });
+});
@@ -0,0 +1,366 @@
+import { z } from "zod";
+import type { SpreadsheetTable } from "@/lib/spreadsheet";
+import { factorDatabases } from "./factor-database";
+import {
+  emissionFactorSchema,
+  factorCategories,
+  factorCategoryLabels,
+  formatFactorField,
+  saveLibraryFactor,
+} from "./factor-library";
+import type { EmissionFactor, FactorCategory, FactorLibrary, PedigreeScore } from "./types";
+
+export type ImportField = keyof EmissionFactor;
+
+// Columns are matched on these header names, ignoring case, spaces and punctuation
+export const importFields: { field: ImportField; label: string; required?: boolean; headers: string[] }[] = [
+  { field: "id", label: "Id", required: true, headers: ["id", "factorid", "code", "key"] },
+  { field: "value", label: "Value", required: true, headers: ["value", "factor", "amount", "emissionfactor"] },
+  { field: "unit", label: "Unit", headers: ["unit", "units", "uom"] },
+  { field: "label", label: "Name", headers: ["name", "label", "description", "activity", "process"] },
+  { field: "category", label: "Category", headers: ["category", "type", "group"] },
+  { field: "source", label: "Source", headers: ["source", "reference", "dataset", "database"] },
+  { field: "year", label: "Reference year", headers: ["year", "referenceyear", "datayear"] },
+  { field: "geography", label: "Geography", headers: ["geography", "region", "country", "location"] },
+  { field: "licence", label: "Licence", headers: ["licence", "license", "terms"] },
+  { field: "pedigree", label: "Pedigree", headers: ["pedigree", "pedigreescore", "dataquality", "dqi"] },
+];
+
+// Column index per field; unmapped fields use the existing factor's value, then the default
+export type FactorColumnMapping = Partial<Record<ImportField, number>>;
+export type FactorImportDefaults = Partial<Record<ImportField, string>>;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const guessColumnMapping = (headers: string[]): FactorColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: FactorColumnMapping = {};
+  importFields.forEach(({ field, headers: names }) => {
+    const index = normalized.findIndex(
+      (header, column) => names.includes(header) && !Object.values(mapping).includes(column),
+    );
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+// The units the engine reads for each factor id pattern, in the bundled releases' notation
+const expectedUnit = (id: string): string | undefined => {
+  if (/^(grid|energy)\./.test(id)) return "g CO₂-eq/kWh";
+  if (id.startsWith("transport.")) {
+    return id.endsWith(".co2") ? "kg CO₂-eq/tkm" : id.endsWith(".energy") ? "MJ/tkm" : undefined;
+  }
+  if (id.startsWith("characterization.")) return undefined;
+  if (id.endsWith(".co2")) return "kg CO₂-eq/kg";
+  if (id.endsWith(".energy")) return "MJ/kg";
+  if (id.endsWith(".water")) return "L/kg";
+  return undefined;
+};
+
+const inferCategory = (id: string): FactorCategory => {
+  if (id.startsWith("grid.")) return "grid";
+  if (id.startsWith("energy.")) return "energy";
+  if (id.startsWith("transport.")) return "transport";
+  if (id.startsWith("landfill.")) return "endOfLife";
+  if (id.startsWith("characterization.")) return "characterization";
+  return "metal";
+};
+
+type Dimension = "mass" | "energy" | "volume" | "transportWork";
+
+// Scale of each unit against kg, MJ, L and tkm
+const unitScales: Record<string, { dimension: Dimension; scale: number }> = {
+  g: { dimension: "mass", scale: 1e-3 },
+  kg: { dimension: "mass", scale: 1 },
+  t: { dimension: "mass", scale: 1e3 },
+  tonne: { dimension: "mass", scale: 1e3 },
+  kj: { dimension: "energy", scale: 1e-3 },
+  mj: { dimension: "energy", scale: 1 },
+  gj: { dimension: "energy", scale: 1e3 },
+  wh: { dimension: "energy", scale: 3.6e-3 },
+  kwh: { dimension: "energy", scale: 3.6 },
+  mwh: { dimension: "energy", scale: 3.6e3 },
+  ml: { dimension: "volume", scale: 1e-3 },
+  l: { dimension: "volume", scale: 1 },
+  m3: { dimension: "volume", scale: 1e3 },
+  tkm: { dimension: "transportWork", scale: 1 },
+  tonnekm: { dimension: "transportWork", scale: 1 },
+  kgkm: { dimension: "transportWork", scale: 1e-3 },
+};
+
+const CO2_EQUIVALENT = /(co2|co₂)\s*-?\s*(equivalents?|eq\.?|e)?/i;
+
+const readUnit = (unit: string) => {
+  const [numerator, denominator, ...rest] = unit.split(/\s*\/\s*|\s+per\s+/i);
+  if (!denominator || rest.length > 0) return undefined;
+  const key = (part: string) => part.replace(CO2_EQUIVALENT, "").replace(/[\s·*-]/g, "").replace("³", "3").toLowerCase();
+  const top = unitScales[key(numerator)];
+  const bottom = unitScales[key(denominator)];
+  return top && bottom ? { numerator: top, denominator: bottom } : undefined;
+};
+
+/** Multiplier taking a value in `from` to `to`, or undefined when the units measure different things. */
+export const unitConversion = (from: string, to: string): number | undefined => {
+  const compact = (unit: string) => unit.replace(/\s/g, "").toLowerCase();
+  if (compact(from) === compact(to)) return 1;
+  const source = readUnit(from);
+  const target = readUnit(to);
+  if (
+    !source ||
+    !target ||
+    source.numerator.dimension !== target.numerator.dimension ||
+    source.denominator.dimension !== target.denominator.dimension
+  ) {
+    return undefined;
+  }
+  return (source.numerator.scale / source.denominator.scale) * (target.denominator.scale / target.numerator.scale);
+};
+
+/** The unit the engine reads a factor in: the existing factor's, else the one its id implies. */
+export const getEngineUnit = (id: string, existing?: EmissionFactor): string | undefined =>
+  existing?.unit ?? expectedUnit(id);
+
+// Every release carries the same ids, and the engine reads each of them
+const engineIds = new Set(factorDatabases[0].factors.map(({ id }) => id));
+
+/**
+ * Why no calculation will read a factor id, or undefined when the engine reads it.
+ * The engine only reads the ids it ships with, so a new id is most often a typo.
+ */
+export const getUnreadFactorWarning = (id: string): string | undefined =>
+  engineIds.has(id) ? undefined : `${id} is not in the factor database, so no calculation reads it yet`;
+
+/** A value given in `unit` restated in `target`, or undefined when the units measure different things. */
+export const convertFactorValue = (value: number, unit: string, target?: string): number | undefined => {
+  const conversion = target && unit ? unitConversion(unit, target) : 1;
+  if (conversion === undefined) return undefined;
+  return conversion === 1 ? value : Number((value * conversion).toPrecision(12));
+};
+
+// Generous bounds that still catch values entered per tonne or in the wrong unit
+const plausibleRanges: Record<string, [number, number]> = {
+  "kg CO₂-eq/kg": [0, 50_000],
+  "MJ/kg": [0, 500_000],
+  "L/kg": [0, 10_000_000],
+  "g CO₂-eq/kWh": [0, 1_500],
+  "kg CO₂-eq/tkm": [0, 5],
+  "MJ/tkm": [0, 50],
+};
+
+const compactNumber = (text: string) => text.replace(/[\s\u00a0]/g, "");
+
+// "1,234" is a thousand with a separator or one and a bit with a decimal comma
+const AMBIGUOUS_NUMBER = /^[-+]?\d{1,3},\d{3}$/;
+
+const isAmbiguousNumber = (text: string) => AMBIGUOUS_NUMBER.test(compactNumber(text));
+
+// Spreadsheets saved with a decimal comma give "1 234,5" or "1.234,5". With both marks the
+// last one is the decimal separator; a mark repeated between groups of three digits only
+// separates thousands. Ambiguous values are read as NaN.
+const parseNumber = (text: string) => {
+  const compact = compactNumber(text);
+  if (compact === "" || AMBIGUOUS_NUMBER.test(compact)) return NaN;
+  const normalized = /^[-+]?\d{1,3}(,\d{3})*\.\d+$|^[-+]?\d{1,3}(,\d{3}){2,}$/.test(compact)
+    ? compact.replace(/,/g, "")
+    : /^[-+]?\d{1,3}(\.\d{3})*,\d+$|^[-+]?\d{1,3}(\.\d{3}){2,}$/.test(compact)
+      ? compact.replace(/\./g, "").replace(",", ".")
+      : compact.replace(",", ".");
+  return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(normalized) ? Number(normalized) : NaN;
+};
+
+const readCategory = (text: string, id: string): string => {
+  const wanted = text.trim().toLowerCase();
+  if (!wanted) return inferCategory(id);
+  return factorCategories.find((category) => category.toLowerCase() === wanted || factorCategoryLabels[category].toLowerCase() === wanted) ?? text;
+};
+
+// Five scores from 1 to 5 in the indicator order, e.g. "2 1 3 2 1" or "(2,1,3,2,1)". A blank
+// cell leaves the factor unscored; anything else is read as null.
+const readPedigree = (text: string): PedigreeScore | undefined | null => {
+  const scores = (text.match(/\d+/g) ?? []).map(Number);
+  if (scores.length === 0 && !text.trim()) return undefined;
+  return scores.length === 5 && scores.every((score) => score >= 1 && score <= 5) ? (scores as PedigreeScore) : null;
+};
+
+// The raw cells of one row are converted to the engine's unit for the id, then checked like a hand-entered factor
+const importedFactorSchema = (existing?: EmissionFactor) =>
+  z
+    .record(z.string())
+    .transform((cells, context) => {
+      const id = cells.id.trim();
+      const unit = cells.unit.trim();
+      if (isAmbiguousNumber(cells.value)) {
+        const written = compactNumber(cells.value);
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["value"],
+          message: `${written} could mean ${written.replace(",", "")} or ${written.replace(",", ".")}; enter it without the comma`,
+        });
+        return z.NEVER;
+      }
+      const target = getEngineUnit(id, existing);
+      const value = convertFactorValue(parseNumber(cells.value), unit, target);
+      if (value === undefined) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["unit"],
+          message: `${unit} cannot be converted to ${target}, the unit ${id} is read in`,
+        });
+        return z.NEVER;
+      }
+      const pedigree = readPedigree(cells.pedigree);
+      if (pedigree === null) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["pedigree"],
+          message: `${cells.pedigree.trim()} is not five scores from 1 to 5, e.g. 2 1 3 2 1`,
+        });
+        return z.NEVER;
+      }
+      return {
+        ...cells,
+        id,
+        category: readCategory(cells.category, id),
+        value,
+        unit: target ?? unit,
+        year: parseNumber(cells.year),
+        pedigree,
+      };
+    })
+    .pipe(emissionFactorSchema)
+    .superRefine(({ value, unit }, context) => {
+      const range = plausibleRanges[unit];
+      if (range && (value < range[0] || value > range[1])) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["value"],
+          message: `${value.toLocaleString()} ${unit} is outside the plausible range of ${range[0]} to ${range[1].toLocaleString()}`,
+        });
+      }
+    });
+
+export type ImportRowStatus = "new" | "unchanged" | "conflict" | "invalid";
+
+export interface ImportRow {
+  row: number; // row number in the file
+  id: string;
+  status: ImportRowStatus;
+  factor?: EmissionFactor; // the validated factor, in the engine's unit
+  existing?: EmissionFactor; // the factor with the same id the calculation uses today
+  differences: ImportField[];
+  errors: string[];
+  warnings: string[]; // importable, but worth a second look
+  converted?: string; // the value and unit as written in the file, when they were converted
+}
+
+const comparedFields: ImportField[] = [
+  "label",
+  "category",
+  "value",
+  "unit",
+  "source",
+  "year",
+  "geography",
+  "licence",
+  "pedigree",
+];
+
+/**
+ * Reads every row with the column mapping and classifies it against the factors in
+ * use: new ids, rows identical to an existing factor, conflicts that would change
+ * one, and rows that fail validation or repeat an earlier id in the file.
+ */
+export const previewFactorImport = (
+  table: SpreadsheetTable,
+  mapping: FactorColumnMapping,
+  defaults: FactorImportDefaults,
+  current: EmissionFactor[],
+): ImportRow[] => {
+  const existingFactors = new Map(current.map((factor) => [factor.id, factor]));
+  const seen = new Map<string, number>();
+
+  return table.rows.map(({ number, cells }) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? "" : (cells[column] ?? "").trim();
+    };
+    const id = cell("id");
+    const existing = existingFactors.get(id);
+    const raw = Object.fromEntries(
+      importFields.map(({ field, required }) => [
+        field,
+        required ? cell(field) : cell(field) || (existing ? String(formatFactorField(existing, field) ?? "") : defaults[field] ?? ""),
+      ]),
+    );
+    const result = { row: number, id, existing, differences: [] as ImportField[], warnings: [] as string[] };
+
+    const parsed = importedFactorSchema(existing).safeParse(raw);
+    if (!parsed.success) {
+      const errors = parsed.error.issues.map(({ path, message }) => {
+        const label = importFields.find(({ field }) => field === path[0])?.label ?? "Row";
+        return message.startsWith(label) ? message : `${label}: ${message}`;
+      });
+      return { ...result, status: "invalid", errors };
+    }
+
+    const factor = parsed.data as EmissionFactor;
+    const firstRow = seen.get(factor.id);
+    if (firstRow !== undefined) {
+      return { ...result, status: "invalid", errors: [`${factor.id} already appears on row ${firstRow}`] };
+    }
+    seen.set(factor.id, number);
+
+    const converted = raw.unit && unitConversion(raw.unit, factor.unit) !== 1 ? `${raw.value} ${raw.unit}` : undefined;
+    const differences = existing ? comparedFields.filter((field) => formatFactorField(existing, field) !== formatFactorField(factor, field)) : [];
+    const status: ImportRowStatus = !existing ? "new" : differences.length > 0 ? "conflict" : "unchanged";
+    const unread = getUnreadFactorWarning(factor.id);
+    const warnings = unread ? [unread] : [];
+    return { ...result, status, factor, differences, errors: [], warnings, converted };
+  });
+};
+
+export interface FactorImportReport {
+  fileName: string;
+  added: string[];
+  updated: string[];
+  kept: string[]; // conflicting rows left as they were
+  unchanged: number;
+  invalid: number;
+}
+
+export interface FactorImportOptions {
+  fileName: string;
+  overwrite: boolean; // replace existing factors that conflict with the file
+  author: string;
+  reason: string;
+}
+
+/** Saves the new and, when asked, the conflicting rows to the library with one audit entry each. */
+export const mergeFactorImport = (
+  current: FactorLibrary,
+  rows: ImportRow[],
+  { fileName, overwrite, author, reason }: FactorImportOptions,
+): { library: FactorLibrary; report: FactorImportReport } => {
+  const report: FactorImportReport = {
+    fileName,
+    added: [],
+    updated: [],
+    kept: [],
+    unchanged: rows.filter(({ status }) => status === "unchanged").length,
+    invalid: rows.filter(({ status }) => status === "invalid").length,
+  };
+
+  const library = rows.reduce((next, { row, status, factor, existing }) => {
+    if (status === "conflict" && !overwrite) report.kept.push(factor.id);
+    if (status !== "new" && !(status === "conflict" && overwrite)) return next;
+    (status === "new" ? report.added : report.updated).push(factor.id);
+    return saveLibraryFactor(next, factor, {
+      action: "import",
+      author,
+      reason: `${reason.trim()} (${fileName}, row ${row})`,
+      previous: existing,
+    });
+  }, current);
+
+  return { library, report };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { factorDatabases } from "./factor-database";
+import { mergeLibraryFactors, saveLibraryFactor } from "./factor-library";
+import type { EmissionFactor } from "./types";
+
+const bundled = factorDatabases[0].factors.find(({ id }) => id === "aluminum.primary.co2");
+const empty = { factors: [], audit: [] };
+
+describe("saveLibraryFactor", () => {
+  it("records every field of a new factor as set, with who added it and why", () => {
+    const factor: EmissionFactor = { ...bundled, id: "aluminum.primary.co2-smelter" };
+    const library = saveLibraryFactor(empty, factor, { action: "add", author: " Analyst ", reason: " Site data " });
+    const [entry] = library.audit;
+    expect(library.factors).toEqual([factor]);
+    expect(entry).toMatchObject({ factorId: factor.id, action: "add", author: "Analyst", reason: "Site data" });
+    expect(entry.changes).toContainEqual({ field: "value", from: undefined, to: bundled.value });
+    expect(entry.changes).toContainEqual({ field: "pedigree", from: undefined, to: bundled.pedigree.join(" ") });
+  });
+
+  it("records only the fields an edit changes and replaces the factor", () => {
+    const first = saveLibraryFactor(empty, bundled, { action: "edit", author: "Analyst", reason: "Copy" });
+    const edited: EmissionFactor = { ...bundled, value: 12, pedigree: [...bundled.pedigree] };
+    const library = saveLibraryFactor(first, edited, { action: "edit", author: "Analyst", reason: "Survey", previous: bundled });
+    expect(library.factors).toEqual([edited]);
+    expect(library.audit).toHaveLength(2);
+    expect(library.audit[1].changes).toEqual([{ field: "value", from: bundled.value, to: 12 }]);
+    expect(library.audit[0].id).not.toBe(library.audit[1].id);
+  });
+
+  it("records a pedigree change as the scores before and after", () => {
+    const edited: EmissionFactor = { ...bundled, pedigree: [1, 1, 1, 1, 1] };
+    const { audit } = saveLibraryFactor(empty, edited, { action: "edit", author: "Analyst", reason: "Audit", previous: bundled });
+    expect(audit[0].changes).toEqual([{ field: "pedigree", from: bundled.pedigree.join(" "), to: "1 1 1 1 1" }]);
+  });
+});
+
+describe("mergeLibraryFactors", () => {
+  it("puts library factors over bundled ones in place and appends new ids", () => {
+    const [first, second] = factorDatabases[0].factors;
+    const added: EmissionFactor = { ...first, id: "grid.AA" };
+    const merged = mergeLibraryFactors([first, second], [added, { ...second, value: 1 }]);
+    expect(merged.map(({ id, value }) => [id, value])).toEqual([
+      [first.id, first.value],
+      [second.id, 1],
+      ["grid.AA", first.value],
+    ]);
+  });
+});
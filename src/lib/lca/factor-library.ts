@@ -0,0 +1,118 @@
+import { z } from "zod";
+import type { EmissionFactor, FactorAuditAction, FactorAuditEntry, FactorCategory, FactorLibrary } from "./types";
+
+export const factorCategoryLabels: Record<FactorCategory, string> = {
+  metal: "Metal production",
+  energy: "Energy source",
+  grid: "Grid electricity",
+  transport: "Transport",
+  endOfLife: "End of life",
+  characterization: "Characterization",
+};
+
+export const factorCategories = Object.keys(factorCategoryLabels) as FactorCategory[];
+
+const pedigreeIndicator = z.number().int().min(1, "Pedigree scores run from 1 to 5").max(5, "Pedigree scores run from 1 to 5");
+
+export const emissionFactorSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .min(1, "Give the factor an id")
+    .regex(/^\S+$/, "Ids cannot contain spaces"),
+  category: z.enum(factorCategories as [FactorCategory, ...FactorCategory[]]),
+  label: z.string().trim().min(1, "Give the factor a name"),
+  value: z.number({ invalid_type_error: "Value must be a number" }).finite("Value must be a finite number"),
+  unit: z.string().trim().min(1, "Give the unit"),
+  source: z.string().trim().min(1, "Name the source"),
+  year: z.number({ invalid_type_error: "Year must be a number" }).int().min(1950).max(2100),
+  geography: z.string().trim().min(1, "Give the geography, e.g. GLO"),
+  licence: z.string().trim().min(1, "Record the licence"),
+  pedigree: z.tuple([pedigreeIndicator, pedigreeIndicator, pedigreeIndicator, pedigreeIndicator, pedigreeIndicator]).optional(),
+});
+
+const auditedFields: (keyof EmissionFactor)[] = [
+  "id",
+  "label",
+  "category",
+  "value",
+  "unit",
+  "source",
+  "year",
+  "geography",
+  "licence",
+  "pedigree",
+];
+
+/** A factor's field as it is recorded and compared; pedigrees as their five scores, e.g. "2 1 3 2 1". */
+export const formatFactorField = (factor: EmissionFactor | undefined, field: keyof EmissionFactor): string | number | undefined =>
+  field === "pedigree" ? factor?.pedigree?.join(" ") : factor?.[field];
+
+let library: FactorLibrary = { factors: [], audit: [] };
+const listeners = new Set<() => void>();
+
+// The library is module state so the engine reads the analyst's factors without
+// threading them through every call; the browser and the Monte Carlo worker load it
+export const getFactorLibrary = (): FactorLibrary => library;
+
+export const setFactorLibrary = (next: FactorLibrary) => {
+  library = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToFactorLibrary = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+let auditCounter = 0;
+
+interface FactorSave {
+  action: FactorAuditAction;
+  author: string;
+  reason: string;
+  previous?: EmissionFactor; // the factor being edited or cloned
+}
+
+/**
+ * Adds or replaces a factor in the library and appends an audit entry recording
+ * who changed which fields and why. Returns the new library.
+ */
+export const saveLibraryFactor = (
+  current: FactorLibrary,
+  factor: EmissionFactor,
+  { action, author, reason, previous }: FactorSave,
+): FactorLibrary => {
+  // A new factor has no previous values, so every field is recorded as set
+  const changes = auditedFields
+    .map((field) => ({ field, from: formatFactorField(previous, field), to: formatFactorField(factor, field) }))
+    .filter(({ from, to }) => from !== to);
+  auditCounter += 1;
+
+  const entry: FactorAuditEntry = {
+    id: `audit-${Date.now().toString(36)}-${auditCounter}`,
+    factorId: factor.id,
+    action,
+    author: author.trim(),
+    reason: reason.trim(),
+    timestamp: new Date().toISOString(),
+    changes,
+  };
+
+  return {
+    factors: [...current.factors.filter(({ id }) => id !== factor.id), factor],
+    audit: [...current.audit, entry],
+  };
+};
+
+/** Bundled factors with the library's on top, keeping the bundled order and appending new ids. */
+export const mergeLibraryFactors = (bundled: EmissionFactor[], local: EmissionFactor[]): EmissionFactor[] => {
+  const overrides = new Map(local.map((factor) => [factor.id, factor]));
+  const bundledIds = new Set(bundled.map(({ id }) => id));
+  return [
+    ...bundled.map((factor) => overrides.get(factor.id) ?? factor),
+    ...local.filter(({ id }) => !bundledIds.has(id)),
+  ];
+};
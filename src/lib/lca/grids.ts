@@ -0,0 +1,76 @@
+import { getFactors } from "./factor-database";
+
+export interface GridRegion {
+  id: string; // ISO 3166 code, subdivisions as "CC-XX"
+  name: string;
+  parent?: string; // id of the country for subnational grids
+}
+
+// Intensities live in the factor database under "grid.<id>", so every release
+// must cover every region listed here.
+export const gridRegions: GridRegion[] = [
+  { id: "WORLD", name: "World average" },
+
+  { id: "AU", name: "Australia" },
+  { id: "AU-NSW", name: "New South Wales", parent: "AU" },
+  { id: "AU-QLD", name: "Queensland", parent: "AU" },
+  { id: "AU-TAS", name: "Tasmania", parent: "AU" },
+  { id: "BH", name: "Bahrain" },
+  { id: "BR", name: "Brazil" },
+  { id: "CA", name: "Canada" },
+  { id: "CA-AB", name: "Alberta", parent: "CA" },
+  { id: "CA-BC", name: "British Columbia", parent: "CA" },
+  { id: "CA-ON", name: "Ontario", parent: "CA" },
+  { id: "CA-QC", name: "Quebec", parent: "CA" },
+  { id: "CL", name: "Chile" },
+  { id: "CN", name: "China" },
+  { id: "CN-NM", name: "Inner Mongolia", parent: "CN" },
+  { id: "CN-SC", name: "Sichuan", parent: "CN" },
+  { id: "CN-SD", name: "Shandong", parent: "CN" },
+  { id: "CN-XJ", name: "Xinjiang", parent: "CN" },
+  { id: "CN-YN", name: "Yunnan", parent: "CN" },
+  { id: "FR", name: "France" },
+  { id: "DE", name: "Germany" },
+  { id: "IS", name: "Iceland" },
+  { id: "IN", name: "India" },
+  { id: "IN-CT", name: "Chhattisgarh", parent: "IN" },
+  { id: "IN-GJ", name: "Gujarat", parent: "IN" },
+  { id: "IN-KA", name: "Karnataka", parent: "IN" },
+  { id: "IN-OR", name: "Odisha", parent: "IN" },
+  { id: "ID", name: "Indonesia" },
+  { id: "JP", name: "Japan" },
+  { id: "KR", name: "South Korea" },
+  { id: "MY", name: "Malaysia" },
+  { id: "MX", name: "Mexico" },
+  { id: "NO", name: "Norway" },
+  { id: "PL", name: "Poland" },
+  { id: "QA", name: "Qatar" },
+  { id: "RU", name: "Russia" },
+  { id: "SA", name: "Saudi Arabia" },
+  { id: "ZA", name: "South Africa" },
+  { id: "SE", name: "Sweden" },
+  { id: "AE", name: "United Arab Emirates" },
+  { id: "GB", name: "United Kingdom" },
+  { id: "US", name: "United States" },
+  { id: "US-CA", name: "California", parent: "US" },
+  { id: "US-OH", name: "Ohio", parent: "US" },
+  { id: "US-TX", name: "Texas", parent: "US" },
+  { id: "US-WA", name: "Washington", parent: "US" },
+  { id: "US-WV", name: "West Virginia", parent: "US" },
+  { id: "VN", name: "Vietnam" },
+];
+
+export const DEFAULT_GRID_REGION = "WORLD";
+
+export const getGridRegion = (id?: string): GridRegion =>
+  gridRegions.find((region) => region.id === id) ?? gridRegions.find((region) => region.id === DEFAULT_GRID_REGION)!;
+
+/** Consumption-based carbon intensity of a region's grid in g CO₂-eq/kWh. */
+export const getGridIntensity = (id?: string, factorDatabase?: string): number =>
+  getFactors(factorDatabase)(`grid.${getGridRegion(id).id}`);
+
+/** Full display name, e.g. "Odisha, India". */
+export const getGridRegionLabel = (region: GridRegion): string => {
+  const parent = region.parent ? gridRegions.find(({ id }) => id === region.parent) : undefined;
+  return parent ? `${region.name}, ${parent.name}` : region.name;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { hashInputs } from "./hash";
+import { mineToPort, testInputs } from "./test-fixtures";
+import type { LCAInputs } from "./types";
+
+const inputs: LCAInputs = { ...testInputs, recycledContent: 0, transportLegs: [mineToPort] };
+
+describe("hashInputs", () => {
+  it("ignores key order and unset optional fields", () => {
+    const reordered = Object.fromEntries(Object.entries(inputs).reverse()) as LCAInputs;
+    expect(hashInputs(reordered)).toBe(hashInputs(inputs));
+    expect(hashInputs({ ...inputs, targetYear: undefined, energyMix: { solar: undefined, grid: 100 } })).toBe(
+      hashInputs(inputs),
+    );
+  });
+
+  it("ignores the ids the editor gives transport legs", () => {
+    const [leg] = inputs.transportLegs;
+    expect(hashInputs({ ...inputs, transportLegs: [{ ...leg, id: "leg-2" }] })).toBe(hashInputs(inputs));
+  });
+
+  it("changes with any value the engine reads", () => {
+    const [leg] = inputs.transportLegs;
+    expect(hashInputs({ ...inputs, quantity: 1001 })).not.toBe(hashInputs(inputs));
+    expect(hashInputs({ ...inputs, transportLegs: [{ ...leg, distance: 151 }] })).not.toBe(hashInputs(inputs));
+    expect(hashInputs({ ...inputs, transportLegs: [leg, leg] })).not.toBe(hashInputs(inputs));
+  });
+});
@@ -0,0 +1,35 @@
+import type { LCAInputs } from "./types";
+
+// Key order and unset optional fields must not change the hash: two scenarios
+// built in different ways but asking the same question share one result
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter((key) => value[key as keyof typeof value] !== undefined)
+        .sort()
+        .map((key) => [key, canonicalize(value[key as keyof typeof value])]),
+    );
+  }
+  return value;
+};
+
+// 32-bit FNV-1a over UTF-16 code units
+const fnv1a = (text: string, seed: number) => {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+/** A short hash of the inputs that is the same for any two inputs with equal values. */
+export const hashInputs = (inputs: LCAInputs): string => {
+  // A leg's id is random and only keys the editor's rows; the engine never reads it
+  const legs = inputs.transportLegs.map(({ id, ...leg }) => leg);
+  const text = JSON.stringify(canonicalize({ ...inputs, transportLegs: legs }));
+  // Two differently seeded passes make a 64-bit hash, so collisions are not a practical concern
+  return fnv1a(text, 0x811c9dc5) + fnv1a(text, 0x01000193);
+};
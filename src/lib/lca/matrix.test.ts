@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { solveLinearSystem, solveProductSystem, type ProductSystem } from "./matrix";
+
+// Heijungs & Suh's two-process loop: electricity needs fuel, fuel refining needs electricity
+const loop: ProductSystem = {
+  processes: [
+    {
+      id: "power",
+      label: "Electricity production",
+      referenceProduct: "electricity",
+      exchanges: { electricity: 10, fuel: -2 },
+      emissions: { co2: 1 },
+    },
+    {
+      id: "refinery",
+      label: "Fuel production",
+      referenceProduct: "fuel",
+      exchanges: { fuel: 100, electricity: -50 },
+      emissions: { co2: 10, so2: 0.1 },
+    },
+  ],
+};
+
+describe("solveLinearSystem", () => {
+  it("solves a system that needs pivoting", () => {
+    const x = solveLinearSystem(
+      [
+        [0, 2, 1],
+        [1, 1, 1],
+        [2, 1, 0],
+      ],
+      [5, 4, 4],
+    );
+    [1, 2, 1].forEach((expected, index) => expect(x[index]).toBeCloseTo(expected, 12));
+  });
+
+  it("rejects a singular matrix", () => {
+    expect(() =>
+      solveLinearSystem(
+        [
+          [1, 2],
+          [2, 4],
+        ],
+        [1, 2],
+      ),
+    ).toThrow(/singular/);
+  });
+});
+
+describe("solveProductSystem", () => {
+  it("solves the loop exactly", () => {
+    const { scaling, inventory } = solveProductSystem(loop, { product: "electricity", amount: 1000 });
+    // 10·s₁ − 50·s₂ = 1000 and −2·s₁ + 100·s₂ = 0
+    expect(scaling.power).toBeCloseTo(1000 / 9, 9);
+    expect(scaling.refinery).toBeCloseTo(1000 / 450, 9);
+    expect(inventory.co2).toBeCloseTo(1000 / 9 + 10000 / 450, 9);
+    expect(inventory.so2).toBeCloseTo(100 / 450, 9);
+  });
+
+  it("scales every exchange by its process's scaling factor", () => {
+    const { exchanges } = solveProductSystem(loop, { product: "electricity", amount: 1000 });
+    const net = (product: string) =>
+      exchanges.filter((exchange) => exchange.product === product).reduce((sum, { amount }) => sum + amount, 0);
+    expect(net("electricity")).toBeCloseTo(1000, 9);
+    expect(net("fuel")).toBeCloseTo(0, 9);
+  });
+
+  it("requires a process for the functional unit", () => {
+    expect(() => solveProductSystem(loop, { product: "steel", amount: 1 })).toThrow(/functional unit/);
+  });
+
+  it("requires one reference process per product", () => {
+    const duplicate = { processes: [...loop.processes, { ...loop.processes[0], id: "power-2" }] };
+    expect(() => solveProductSystem(duplicate, { product: "electricity", amount: 1 })).toThrow(/exactly one/);
+  });
+});
@@ -0,0 +1,88 @@
+export interface UnitProcess {
+  id: string;
+  label: string;
+  referenceProduct: string;
+  // Technosphere exchanges per unit of operation: outputs positive, inputs negative
+  exchanges: Record<string, number>;
+  // Elementary flows per unit of operation
+  emissions: Record<string, number>;
+}
+
+export interface ProductSystem {
+  processes: UnitProcess[];
+}
+
+export interface LCISolution {
+  scaling: Record<string, number>; // process id → times the process runs
+  inventory: Record<string, number>; // elementary flow id → total
+  // Every process's technosphere exchanges multiplied by its scaling factor
+  exchanges: { process: string; product: string; amount: number }[];
+}
+
+/** Solves A·x = b by Gaussian elimination with partial pivoting. */
+export const solveLinearSystem = (matrix: number[][], vector: number[]): number[] => {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error("Technosphere matrix is singular: a product has no producing process or the loop never closes");
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+/**
+ * Matrix-based life cycle inventory (Heijungs & Suh): builds the technosphere
+ * matrix A from the processes' exchanges, solves A·s = f for the scaling vector s
+ * and returns the biosphere inventory g = B·s. Loops such as scrap returning to
+ * remelting are solved exactly rather than by iteration.
+ */
+export const solveProductSystem = (
+  system: ProductSystem,
+  functionalUnit: { product: string; amount: number },
+): LCISolution => {
+  const products = system.processes.map((process) => process.referenceProduct);
+  if (new Set(products).size !== products.length) {
+    throw new Error("Each product must have exactly one reference process");
+  }
+  if (!products.includes(functionalUnit.product)) {
+    throw new Error(`No process produces the functional unit "${functionalUnit.product}"`);
+  }
+
+  const technosphere = products.map((product) =>
+    system.processes.map((process) => process.exchanges[product] ?? 0),
+  );
+  const demand = products.map((product) => (product === functionalUnit.product ? functionalUnit.amount : 0));
+  const s = solveLinearSystem(technosphere, demand);
+
+  const scaling = Object.fromEntries(system.processes.map((process, j) => [process.id, s[j]]));
+  const inventory: Record<string, number> = {};
+  system.processes.forEach((process, j) => {
+    Object.entries(process.emissions).forEach(([flow, amount]) => {
+      inventory[flow] = (inventory[flow] ?? 0) + amount * s[j];
+    });
+  });
+  const exchanges = system.processes.flatMap((process, j) =>
+    Object.entries(process.exchanges).map(([product, amount]) => ({ process: process.id, product, amount: amount * s[j] })),
+  );
+
+  return { scaling, inventory, exchanges };
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { calculateMCI, type MCIParameters } from "./mci";
+
+const linear: MCIParameters = {
+  mass: 100,
+  recycledFeedstock: 0,
+  reusedFeedstock: 0,
+  recyclingCollection: 0,
+  reuseCollection: 0,
+  feedstockRecyclingEfficiency: 1,
+  eolRecyclingEfficiency: 1,
+  lifetimeRatio: 1,
+  usageIntensityRatio: 1,
+};
+
+describe("calculateMCI", () => {
+  it("scores a fully linear product at the EMF floor of 0.1", () => {
+    const result = calculateMCI(linear);
+    expect(result.linearFlowIndex).toBe(1);
+    expect(result.mci).toBeCloseTo(0.1);
+    expect(result.virginFeedstock).toBe(100);
+    expect(result.unrecoverableWaste).toBe(100);
+  });
+
+  it("scores a fully restorative product at 1", () => {
+    const result = calculateMCI({ ...linear, recycledFeedstock: 1, recyclingCollection: 1 });
+    expect(result.linearFlowIndex).toBe(0);
+    expect(result.mci).toBe(1);
+  });
+
+  it("counts half the recycling losses as unrecoverable waste", () => {
+    // Worked by hand from the EMF methodology for 100 kg with Fr = Cr = 0.5 and Ec = Ef = 0.8:
+    // V = 50, W0 = 50, WF = 100 × 0.2 × 0.5 / 0.8 = 12.5, WC = 100 × 0.2 × 0.5 = 10
+    // W = 50 + (12.5 + 10) / 2 = 61.25, LFI = (50 + 61.25) / (200 + (12.5 − 10) / 2) = 111.25 / 201.25
+    const result = calculateMCI({
+      ...linear,
+      recycledFeedstock: 0.5,
+      recyclingCollection: 0.5,
+      feedstockRecyclingEfficiency: 0.8,
+      eolRecyclingEfficiency: 0.8,
+    });
+    expect(result.virginFeedstock).toBeCloseTo(50, 9);
+    expect(result.unrecoverableWaste).toBeCloseTo(61.25, 9);
+    expect(result.linearFlowIndex).toBeCloseTo(0.552795, 6);
+    expect(result.mci).toBeCloseTo(0.502484, 6);
+  });
+
+  it("raises the score for a product that lasts longer than average", () => {
+    const average = calculateMCI({ ...linear, recycledFeedstock: 0.5 });
+    const durable = calculateMCI({ ...linear, recycledFeedstock: 0.5, lifetimeRatio: 2 });
+    expect(durable.utilityFactor).toBeCloseTo(0.45);
+    expect(durable.mci).toBeGreaterThan(average.mci);
+  });
+
+  it("stays within 0–1 for extreme utility", () => {
+    expect(calculateMCI({ ...linear, lifetimeRatio: 0 }).mci).toBe(0);
+    expect(calculateMCI({ ...linear, lifetimeRatio: 100 }).mci).toBeLessThanOrEqual(1);
+  });
+
+  it("treats a product without mass as linear", () => {
+    expect(calculateMCI({ ...linear, mass: 0 }).linearFlowIndex).toBe(1);
+  });
+});
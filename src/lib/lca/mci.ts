@@ -0,0 +1,49 @@
+import type { MCIResult } from "./types";
+
+export interface MCIParameters {
+  mass: number; // kg of product
+  recycledFeedstock: number; // Fr, 0–1
+  reusedFeedstock: number; // Fu, 0–1
+  recyclingCollection: number; // Cr, 0–1 of product collected for recycling
+  reuseCollection: number; // Cu, 0–1 of product going to reuse
+  feedstockRecyclingEfficiency: number; // Ec, yield of the process making the recycled feedstock
+  eolRecyclingEfficiency: number; // Ef, yield of recycling the collected product
+  lifetimeRatio: number; // L / Lav
+  usageIntensityRatio: number; // U / Uav
+}
+
+/**
+ * Ellen MacArthur Foundation Material Circularity Indicator (2019 methodology).
+ * Returns 0 for a fully linear product and 1 for a fully restorative one.
+ */
+export const calculateMCI = (params: MCIParameters): MCIResult => {
+  const {
+    mass: m,
+    recycledFeedstock: fr,
+    reusedFeedstock: fu,
+    recyclingCollection: cr,
+    reuseCollection: cu,
+    feedstockRecyclingEfficiency: ec,
+    eolRecyclingEfficiency: ef,
+  } = params;
+
+  const virginFeedstock = m * Math.max(0, 1 - fr - fu);
+  const landfilledWaste = m * Math.max(0, 1 - cr - cu);
+  const feedstockRecyclingWaste = ec > 0 ? (m * (1 - ec) * fr) / ec : 0;
+  const eolRecyclingWaste = m * (1 - ef) * cr;
+  const unrecoverableWaste = landfilledWaste + (eolRecyclingWaste + feedstockRecyclingWaste) / 2;
+
+  const linearFlowIndex =
+    m > 0 ? (virginFeedstock + unrecoverableWaste) / (2 * m + (feedstockRecyclingWaste - eolRecyclingWaste) / 2) : 1;
+  const utility = Math.max(0.01, params.lifetimeRatio * params.usageIntensityRatio);
+  const utilityFactor = 0.9 / utility;
+
+  return {
+    mci: Math.min(1, Math.max(0, 1 - linearFlowIndex * utilityFactor)),
+    linearFlowIndex,
+    utility,
+    utilityFactor,
+    virginFeedstock,
+    unrecoverableWaste,
+  };
+};
@@ -0,0 +1,166 @@
+import type { EmissionId, PedigreeScore } from "./types";
+
+export interface MetalDefinition {
+  label: string;
+  symbol: string;
+  color: string; // Tailwind background class for swatches
+  // Direct mine and smelter flows per kg of primary metal, on top of its energy use
+  emissions?: Partial<Record<EmissionId, number>>;
+  // Data quality of the direct emission factors; the production factors carry theirs in the factor database
+  emissionsPedigree: PedigreeScore;
+  primaryPrice: number; // $/kg
+  secondaryPrice: number; // $/kg
+  cffA: number; // PEF allocation factor A
+  recyclingYield: number; // metal recovered per kg of scrap remelted
+}
+
+// Adding a metal only takes a new entry here plus its production and remelting
+// factors in the factor database; every input, chart and calculation reads its
+// list of metals from this registry.
+export const metals = {
+  aluminum: {
+    label: "Aluminum",
+    symbol: "Al",
+    color: "bg-slate-500",
+    emissions: { so2: 0.008, pm25: 5e-4, phosphate: 2e-5, landOccupation: 0.4 },
+    emissionsPedigree: [3, 2, 3, 3, 3],
+    primaryPrice: 2.6,
+    secondaryPrice: 1.35,
+    cffA: 0.2,
+    recyclingYield: 0.9,
+  },
+  copper: {
+    label: "Copper",
+    symbol: "Cu",
+    color: "bg-orange-500",
+    emissions: {
+      so2: 0.02,
+      pm25: 4e-4,
+      phosphate: 5e-5,
+      arsenicAir: 2e-6,
+      cadmiumAir: 5e-7,
+      leadAir: 1e-5,
+      copperWater: 1e-4,
+      zincWater: 2e-5,
+      landOccupation: 1.5,
+    },
+    emissionsPedigree: [3, 3, 3, 3, 3],
+    primaryPrice: 8.8,
+    secondaryPrice: 7.9,
+    cffA: 0.2,
+    recyclingYield: 0.95,
+  },
+  steel: {
+    label: "Steel",
+    symbol: "Fe",
+    color: "bg-zinc-600",
+    emissions: { so2: 0.002, nox: 0.0015, pm25: 8e-4, leadAir: 1e-6, landOccupation: 0.02 },
+    emissionsPedigree: [3, 2, 3, 3, 3],
+    primaryPrice: 0.7,
+    secondaryPrice: 0.45,
+    cffA: 0.2,
+    recyclingYield: 0.9,
+  },
+  stainless: {
+    label: "Stainless Steel",
+    symbol: "SS",
+    color: "bg-gray-400",
+    emissions: { so2: 0.004, nox: 0.002, pm25: 1e-3, landOccupation: 0.1 },
+    emissionsPedigree: [3, 3, 3, 3, 3],
+    primaryPrice: 2.8,
+    secondaryPrice: 2.0,
+    cffA: 0.2,
+    recyclingYield: 0.92,
+  },
+  zinc: {
+    label: "Zinc",
+    symbol: "Zn",
+    color: "bg-sky-400",
+    emissions: { so2: 0.01, pm25: 3e-4, cadmiumAir: 5e-6, leadAir: 5e-5, zincWater: 3e-4, landOccupation: 0.3 },
+    emissionsPedigree: [3, 3, 3, 4, 3],
+    primaryPrice: 2.9,
+    secondaryPrice: 2.2,
+    cffA: 0.2,
+    recyclingYield: 0.85,
+  },
+  nickel: {
+    label: "Nickel",
+    symbol: "Ni",
+    color: "bg-emerald-600",
+    emissions: { so2: 0.1, pm25: 1e-3, arsenicAir: 5e-6, copperWater: 5e-5, landOccupation: 1 },
+    emissionsPedigree: [3, 3, 3, 4, 3],
+    primaryPrice: 17,
+    secondaryPrice: 14,
+    cffA: 0.2,
+    recyclingYield: 0.9,
+  },
+  lead: {
+    label: "Lead",
+    symbol: "Pb",
+    color: "bg-indigo-700",
+    emissions: {
+      so2: 0.015,
+      pm25: 4e-4,
+      arsenicAir: 5e-6,
+      cadmiumAir: 5e-6,
+      leadAir: 2e-4,
+      zincWater: 5e-5,
+      landOccupation: 0.3,
+    },
+    emissionsPedigree: [3, 3, 4, 4, 3],
+    primaryPrice: 2.1,
+    secondaryPrice: 1.9,
+    cffA: 0.2,
+    recyclingYield: 0.95,
+  },
+  titanium: {
+    label: "Titanium",
+    symbol: "Ti",
+    color: "bg-violet-400",
+    emissions: { so2: 0.01, nox: 0.01, pm25: 2e-3, landOccupation: 1 },
+    emissionsPedigree: [4, 3, 4, 4, 3],
+    primaryPrice: 12,
+    secondaryPrice: 8,
+    cffA: 0.2,
+    recyclingYield: 0.8,
+  },
+  lithium: {
+    label: "Lithium",
+    symbol: "Li",
+    color: "bg-rose-400",
+    emissions: { so2: 0.005, nox: 0.003, phosphate: 1e-4, landOccupation: 3 },
+    emissionsPedigree: [4, 3, 3, 4, 3],
+    primaryPrice: 15,
+    secondaryPrice: 11,
+    cffA: 0.2,
+    recyclingYield: 0.7,
+  },
+  cobalt: {
+    label: "Cobalt",
+    symbol: "Co",
+    color: "bg-blue-700",
+    emissions: { so2: 0.05, pm25: 1e-3, copperWater: 2e-4, landOccupation: 2 },
+    emissionsPedigree: [4, 3, 3, 4, 3],
+    primaryPrice: 33,
+    secondaryPrice: 28,
+    cffA: 0.2,
+    recyclingYield: 0.85,
+  },
+  tin: {
+    label: "Tin",
+    symbol: "Sn",
+    color: "bg-stone-400",
+    emissions: { so2: 0.03, pm25: 1e-3, arsenicAir: 1e-5, leadAir: 5e-5, landOccupation: 10 },
+    emissionsPedigree: [4, 3, 4, 4, 3],
+    primaryPrice: 25,
+    secondaryPrice: 22,
+    cffA: 0.2,
+    recyclingYield: 0.9,
+  },
+} satisfies Record<string, MetalDefinition>;
+
+export type MetalId = keyof typeof metals;
+
+export const metalIds = Object.keys(metals) as MetalId[];
+
+export const getMetal = (id: MetalId): MetalDefinition => metals[id];
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { getFactors } from "./factor-database";
+import { getPathwayYears, getProjectedFactors, interpolatePathway, PATHWAY_BASE_YEAR, PATHWAY_END_YEAR, projectInputs } from "./pathways";
+import { getProcessStages } from "./stages";
+import { testInputs as inputs } from "./test-fixtures";
+
+describe("interpolatePathway", () => {
+  it("interpolates linearly between points and holds flat outside them", () => {
+    expect(interpolatePathway("gridDecarbonisation", 2027)).toBeCloseTo(0.875);
+    expect(interpolatePathway("gridDecarbonisation", 2000)).toBe(1);
+    expect(interpolatePathway("gridDecarbonisation", 2070)).toBe(0.3);
+    expect(interpolatePathway("inertAnodes", 2045)).toBeCloseTo(0.45);
+  });
+});
+
+describe("getProjectedFactors", () => {
+  it("scales grid and electric transport intensities and nothing else", () => {
+    const today = getFactors();
+    const projected = getProjectedFactors(undefined, 2050);
+    expect(projected("grid.WORLD")).toBeCloseTo(today("grid.WORLD") * 0.3);
+    expect(projected("aluminum.primary.co2")).toBe(today("aluminum.primary.co2"));
+  });
+
+  it("returns today's factors up to the base year", () => {
+    expect(getProjectedFactors(undefined, PATHWAY_BASE_YEAR)).toBe(getFactors());
+  });
+});
+
+describe("projectInputs", () => {
+  it("leaves a scenario without a future target year untouched", () => {
+    expect(projectInputs(inputs)).toBe(inputs);
+    const current = { ...inputs, targetYear: PATHWAY_BASE_YEAR };
+    expect(projectInputs(current)).toBe(current);
+  });
+
+  it("cuts aluminium's anode burden by the inert anode share", () => {
+    const anode = getProcessStages("aluminum").find(({ id }) => id === "anode");
+    const projected = projectInputs({ ...inputs, targetYear: PATHWAY_END_YEAR });
+    expect(projected.stageParameters.anode.directCo2).toBeCloseTo(anode.directCo2 * 0.4);
+    expect(projected.stageParameters.electrolysis.directCo2).toBeLessThan(
+      getProcessStages("aluminum").find(({ id }) => id === "electrolysis").directCo2,
+    );
+  });
+
+  it("applies the anode pathway to aluminium alloys but not to other metals", () => {
+    expect(projectInputs({ ...inputs, alloy: "aa6061", targetYear: 2040 }).stageParameters.anode).toBeDefined();
+    const copper = projectInputs({ ...inputs, metal: "copper", targetYear: 2040 });
+    expect(copper.stageParameters).toEqual({});
+  });
+
+  it("adds the extra scrap as post-consumer recycled content", () => {
+    const projected = projectInputs({ ...inputs, targetYear: PATHWAY_END_YEAR });
+    expect(projected.recycledContent).toBeCloseTo(60);
+    // 20 points post-consumer today plus the 20 extra
+    expect(projected.postConsumerShare).toBeCloseTo((40 / 60) * 100);
+    expect(projectInputs({ ...inputs, recycledContent: 90, targetYear: PATHWAY_END_YEAR }).recycledContent).toBe(100);
+  });
+});
+
+describe("getPathwayYears", () => {
+  it("runs from the base year to the end year", () => {
+    const years = getPathwayYears(2);
+    expect(years[0]).toBe(PATHWAY_BASE_YEAR);
+    expect(years[years.length - 1]).toBe(PATHWAY_END_YEAR);
+    expect(getPathwayYears()).toHaveLength(PATHWAY_END_YEAR - PATHWAY_BASE_YEAR + 1);
+  });
+});
@@ -0,0 +1,134 @@
+import { getComposition } from "./alloys";
+import { getFactors, type FactorLookup } from "./factor-database";
+import { getProcessStages } from "./stages";
+import type { LCAInputs } from "./types";
+
+export type PathwayId = "gridDecarbonisation" | "inertAnodes" | "scrapAvailability";
+
+interface DecarbonisationPathway {
+  label: string;
+  description: string;
+  source: string;
+  unit: "index" | "share"; // index relative to the base year, or a 0–1 share
+  points: [year: number, value: number][]; // in year order, linear in between
+}
+
+// The year the latest release's factors describe; pathways change nothing before it
+export const PATHWAY_BASE_YEAR = 2024;
+export const PATHWAY_END_YEAR = 2050;
+
+export const pathways: Record<PathwayId, DecarbonisationPathway> = {
+  gridDecarbonisation: {
+    label: "Grid decarbonisation",
+    description: "Carbon intensity of every grid region and of electric transport",
+    source: "IEA World Energy Outlook 2023, Stated Policies Scenario, global average",
+    unit: "index",
+    points: [
+      [2024, 1],
+      [2030, 0.75],
+      [2035, 0.6],
+      [2040, 0.46],
+      [2050, 0.3],
+    ],
+  },
+  inertAnodes: {
+    label: "Inert anode adoption",
+    description: "Share of primary aluminium smelted without consumable carbon anodes",
+    source: "International Aluminium Institute, 1.5 °C Scenario (2021)",
+    unit: "share",
+    points: [
+      [2024, 0],
+      [2030, 0.05],
+      [2035, 0.15],
+      [2040, 0.3],
+      [2050, 0.6],
+    ],
+  },
+  scrapAvailability: {
+    label: "Scrap availability",
+    description: "End-of-life scrap available to raise recycled content as products in use reach end of life",
+    source: "International Aluminium Institute Material Flow Model (2023), old scrap arisings",
+    unit: "index",
+    points: [
+      [2024, 1],
+      [2030, 1.15],
+      [2040, 1.35],
+      [2050, 1.5],
+    ],
+  },
+};
+
+export const pathwayIds = Object.keys(pathways) as PathwayId[];
+
+// Anode oxidation in the cell releases ~1.5 of the electrolysis stage's 1.6 kg CO₂ per kg
+const ANODE_OXIDATION_CO2 = 1.5;
+
+const isProjected = (targetYear?: number): targetYear is number =>
+  targetYear !== undefined && targetYear > PATHWAY_BASE_YEAR;
+
+/** Pathway value in a year, interpolated linearly and held flat outside the bundled points. */
+export const interpolatePathway = (id: PathwayId, year: number): number => {
+  const { points } = pathways[id];
+  const next = points.findIndex(([pointYear]) => pointYear >= year);
+  if (next === 0) return points[0][1];
+  if (next < 0) return points[points.length - 1][1];
+  const [fromYear, from] = points[next - 1];
+  const [toYear, to] = points[next];
+  return from + ((to - from) * (year - fromYear)) / (toYear - fromYear);
+};
+
+/**
+ * Factor lookup for a target year: grid intensities, and the electric transport
+ * that runs on them, follow the grid pathway. Other factors describe technologies
+ * whose intensity the pathways do not change.
+ */
+export const getProjectedFactors = (factorDatabase?: string, targetYear?: number): FactorLookup => {
+  const factors = getFactors(factorDatabase);
+  if (!isProjected(targetYear)) return factors;
+  const grid = interpolatePathway("gridDecarbonisation", targetYear);
+  return (id, fallback) =>
+    /^grid\.|^transport\.\w+\.electric\.co2$/.test(id) ? factors(id, fallback) * grid : factors(id, fallback);
+};
+
+/**
+ * The scenario as it would run in its target year: inert anodes replace part of
+ * aluminium's anode production and oxidation when the metal contains aluminium,
+ * and the extra end-of-life scrap raises the recycled content, all of it post-consumer.
+ */
+export const projectInputs = (inputs: LCAInputs): LCAInputs => {
+  if (!isProjected(inputs.targetYear)) return inputs;
+  const adoption = interpolatePathway("inertAnodes", inputs.targetYear);
+  const availability = interpolatePathway("scrapAvailability", inputs.targetYear);
+
+  const stageParameters = { ...inputs.stageParameters };
+  const containsAluminium = getComposition(inputs.metal, inputs.alloy).some(({ element }) => element === "aluminum");
+  const smelting = containsAluminium ? getProcessStages("aluminum", inputs.stageParameters) : undefined;
+  const anode = smelting?.find(({ id }) => id === "anode");
+  const electrolysis = smelting?.find(({ id }) => id === "electrolysis");
+  if (anode && electrolysis) {
+    stageParameters.anode = {
+      ...stageParameters.anode,
+      electricity: anode.electricity * (1 - adoption),
+      directCo2: anode.directCo2 * (1 - adoption),
+      energy: anode.energy * (1 - adoption),
+      water: anode.water * (1 - adoption),
+    };
+    stageParameters.electrolysis = {
+      ...stageParameters.electrolysis,
+      directCo2: Math.max(0, electrolysis.directCo2 - ANODE_OXIDATION_CO2 * adoption),
+    };
+  }
+
+  const recycledContent = Math.min(100, inputs.recycledContent * availability);
+  const postConsumer = (inputs.recycledContent * inputs.postConsumerShare) / 100 + (recycledContent - inputs.recycledContent);
+  return {
+    ...inputs,
+    stageParameters,
+    recycledContent,
+    postConsumerShare: recycledContent > 0 ? Math.min(100, (postConsumer / recycledContent) * 100) : inputs.postConsumerShare,
+  };
+};
+
+/** Every year from the base year to the end of the pathways, for footprint trajectories. */
+export const getPathwayYears = (step = 1): number[] =>
+  Array.from({ length: Math.floor((PATHWAY_END_YEAR - PATHWAY_BASE_YEAR) / step) + 1 }, (_, index) => PATHWAY_BASE_YEAR + index * step);
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { factorDatabases } from "./factor-database";
+import { setFactorLibrary } from "./factor-library";
+import { getParameterPedigrees, UNSCORED_PEDIGREE } from "./pedigree";
+import { getDistributions } from "./uncertainty";
+import { mineToPort, testInputs } from "./test-fixtures";
+import type { EmissionFactor, LCAInputs } from "./types";
+
+const inputs: LCAInputs = { ...testInputs, recycledContent: 0, transportLegs: [mineToPort] };
+
+const bundled = factorDatabases[0].factors.find(({ id }) => id === "aluminum.primary.co2");
+const withPedigree = (pedigree: EmissionFactor["pedigree"]): EmissionFactor => ({ ...bundled, pedigree });
+
+afterEach(() => setFactorLibrary({ factors: [], audit: [] }));
+
+describe("getParameterPedigrees", () => {
+  it("scores every bundled factor", () => {
+    factorDatabases.forEach(({ factors }) => factors.forEach((factor) => expect(factor.pedigree).toHaveLength(5)));
+  });
+
+  it("reads the scores of the release the scenario is calculated with", () => {
+    const latest = getParameterPedigrees({ ...inputs, factorDatabase: "2024.1" });
+    const older = getParameterPedigrees({ ...inputs, factorDatabase: "2021.1" });
+    expect(latest.primaryBurden).toEqual(bundled.pedigree);
+    expect(older.primaryBurden[2]).toBeGreaterThan(latest.primaryBurden[2]);
+  });
+
+  it("reads the score saved with a library factor, and an unscored one as unknown", () => {
+    setFactorLibrary({ factors: [withPedigree([4, 4, 4, 4, 4])], audit: [] });
+    expect(getParameterPedigrees(inputs).primaryBurden).toEqual([4, 4, 4, 4, 4]);
+    setFactorLibrary({ factors: [withPedigree(undefined)], audit: [] });
+    expect(getParameterPedigrees(inputs).primaryBurden).toEqual(UNSCORED_PEDIGREE);
+  });
+
+  it("weights the grid and each leg by their share", () => {
+    const pedigrees = getParameterPedigrees({
+      ...inputs,
+      energyMix: { grid: 50, hydro: 50 },
+      transportLegs: [],
+    });
+    expect(pedigrees.gridIntensity).toEqual([2.5, 2, 2.5, 2.5, 2.5]);
+  });
+});
+
+describe("getDistributions", () => {
+  it("widens a parameter further the worse its factors score", () => {
+    setFactorLibrary({ factors: [withPedigree([1, 1, 1, 1, 1])], audit: [] });
+    const good = getDistributions(inputs).primaryBurden;
+    setFactorLibrary({ factors: [withPedigree([4, 4, 4, 4, 4])], audit: [] });
+    const poor = getDistributions(inputs).primaryBurden;
+    expect(good.type === "lognormal" && poor.type === "lognormal" && poor.gsd > good.gsd).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { getComposition, getElement } from "./alloys";
+import { getFactorPedigrees } from "./factor-database";
+import { getGridRegion } from "./grids";
+import { resolveTransportFuel } from "./transport";
+import type { DataQuality, DataQualityRating, LCAInputs, PedigreeScore, UncertainParameterId } from "./types";
+
+export const pedigreeIndicators = ["Reliability", "Completeness", "Temporal", "Geographical", "Technological"];
+
+// Variance of the underlying normal added by each score from 1 to 5 (ecoinvent v2, Weidema et al. 2013)
+const PEDIGREE_VARIANCES: number[][] = [
+  [0, 0.0006, 0.002, 0.008, 0.04],
+  [0, 0.0001, 0.0006, 0.002, 0.008],
+  [0, 0.0002, 0.002, 0.008, 0.04],
+  [0, 0.000025, 0.0001, 0.0006, 0.002],
+  [0, 0.0006, 0.008, 0.04, 0.12],
+];
+
+// Used where nothing is known about a factor's origin
+export const UNSCORED_PEDIGREE: PedigreeScore = [5, 5, 5, 5, 5];
+
+/** Added ln-variance of a score; fractional (blended) scores interpolate between levels. */
+export const getPedigreeVariance = (score: PedigreeScore): number =>
+  score.reduce((total, value, indicator) => {
+    const level = Math.min(4, Math.max(0, value - 1));
+    const lower = Math.floor(level);
+    const upper = Math.min(4, lower + 1);
+    const variances = PEDIGREE_VARIANCES[indicator];
+    return total + variances[lower] + (variances[upper] - variances[lower]) * (level - lower);
+  }, 0);
+
+export const getDQR = (score: PedigreeScore): number => score.reduce((sum, value) => sum + value, 0) / score.length;
+
+// PEF data quality levels
+export const getDataQualityRating = (dqr: number): DataQualityRating => {
+  if (dqr <= 1.6) return "Excellent";
+  if (dqr <= 2) return "Very good";
+  if (dqr <= 3) return "Good";
+  if (dqr <= 4) return "Fair";
+  return "Poor";
+};
+
+const blendPedigrees = (entries: [weight: number, score: PedigreeScore][]): PedigreeScore => {
+  const total = entries.reduce((sum, [weight]) => sum + weight, 0);
+  if (total <= 0) return UNSCORED_PEDIGREE;
+  return UNSCORED_PEDIGREE.map((_, indicator) =>
+    entries.reduce((sum, [weight, score]) => sum + (weight / total) * score[indicator], 0),
+  ) as PedigreeScore;
+};
+
+/**
+ * Pedigree of the data behind each uncertain engine factor, for this scenario's metal,
+ * energy and legs, read from the factors the scenario is calculated with. Direct
+ * emissions are not in the factor database, so they keep the element's score.
+ */
+export const getParameterPedigrees = (inputs: LCAInputs): Record<UncertainParameterId, PedigreeScore> => {
+  const factorPedigree = getFactorPedigrees(inputs.factorDatabase);
+  const pedigreeOf = (id: string) => factorPedigree(id) ?? UNSCORED_PEDIGREE;
+  const composition = getComposition(inputs.metal, inputs.alloy);
+  const byElement = (pick: (element: (typeof composition)[number]["element"]) => PedigreeScore) =>
+    blendPedigrees(composition.map(({ element, fraction }) => [fraction, pick(element)]));
+  const postConsumer = Math.min(100, Math.max(0, inputs.postConsumerShare)) / 100;
+
+  return {
+    primaryBurden: byElement((element) => pedigreeOf(`${element}.primary.co2`)),
+    secondaryBurden: byElement((element) =>
+      blendPedigrees([
+        [1 - postConsumer, pedigreeOf(`${element}.preConsumer.co2`)],
+        [postConsumer, pedigreeOf(`${element}.postConsumer.co2`)],
+      ]),
+    ),
+    gridIntensity: blendPedigrees(
+      Object.entries(inputs.energyMix).map(([source, share]) => [
+        share ?? 0,
+        pedigreeOf(source === "grid" ? `grid.${getGridRegion(inputs.gridRegion).id}` : `energy.${source}`),
+      ]),
+    ),
+    transportIntensity: blendPedigrees(
+      inputs.transportLegs.map((leg) => [
+        leg.distance,
+        pedigreeOf(`transport.${leg.mode}.${resolveTransportFuel(leg.mode, leg.fuel)}.co2`),
+      ]),
+    ),
+    processEmissions: byElement((element) => getElement(element).emissionsPedigree),
+  };
+};
+
+/**
+ * Overall data quality: each factor's DQR weighted by how much of the CO₂ result
+ * depends on it. Only the factors given a weight are scored, so factors that never
+ * reach the CO₂ result (process emissions only feed the midpoint categories) are left out.
+ */
+export const assessDataQuality = (
+  pedigrees: Record<UncertainParameterId, PedigreeScore>,
+  weights: Partial<Record<UncertainParameterId, number>>,
+): DataQuality => {
+  const total = Object.values(weights).reduce((sum, weight) => sum + Math.abs(weight), 0);
+  const parameters = (Object.keys(weights) as UncertainParameterId[]).map((parameter) => ({
+    parameter,
+    pedigree: pedigrees[parameter],
+    dqr: getDQR(pedigrees[parameter]),
+    weight: total > 0 ? Math.abs(weights[parameter]) / total : 0,
+  }));
+  const dqr =
+    total > 0
+      ? parameters.reduce((sum, { dqr, weight }) => sum + dqr * weight, 0)
+      : parameters.reduce((sum, { dqr }) => sum + dqr, 0) / parameters.length;
+
+  return { dqr, rating: getDataQualityRating(dqr), parameters };
+};
@@ -0,0 +1,89 @@
+import type { ProductSystem } from "./matrix";
+import type { ElementaryFlows, FeedstockShares, ImpactTotals } from "./types";
+
+// Product the functional unit is expressed in: 1 kg of metal delivered, used and retired
+export const FUNCTIONAL_PRODUCT = "metalService";
+
+// Per kg of output: the headline impacts plus the elementary flows behind the midpoint categories
+type ProcessEmissions = ImpactTotals & ElementaryFlows;
+
+interface ProductSystemParameters {
+  shares: FeedstockShares;
+  virgin: ProcessEmissions;
+  preConsumer: ProcessEmissions;
+  postConsumer: ProcessEmissions;
+  collectionRate: number; // 0–1
+  recyclingYield: number; // 0–1
+}
+
+/**
+ * The scenario as five unit processes. Post-consumer scrap recovered at end of life
+ * feeds back into production, so the system is solved as a loop: the scrap market
+ * only supplies what the product's own recovery does not, and runs negative (scrap
+ * exported) when recovery exceeds the scrap demand. Transport moves mass without
+ * changing it and end-of-life burdens are left to the allocation method, so neither
+ * appears here.
+ */
+export const buildProductSystem = ({
+  shares,
+  virgin,
+  preConsumer,
+  postConsumer,
+  collectionRate,
+  recyclingYield,
+}: ProductSystemParameters): ProductSystem => ({
+  processes: [
+    {
+      id: "production",
+      label: "Production",
+      referenceProduct: "metal",
+      exchanges: {
+        metal: 1,
+        primaryMetal: -shares.primary,
+        preConsumerScrap: -shares.preConsumer,
+        postConsumerScrap: -shares.postConsumer,
+      },
+      emissions: Object.fromEntries(
+        [...new Set([...Object.keys(preConsumer), ...Object.keys(postConsumer)])].map((flow) => [
+          flow,
+          shares.preConsumer * (preConsumer[flow] ?? 0) + shares.postConsumer * (postConsumer[flow] ?? 0),
+        ]),
+      ),
+    },
+    {
+      id: "primaryProduction",
+      label: "Raw Materials",
+      referenceProduct: "primaryMetal",
+      exchanges: { primaryMetal: 1 },
+      emissions: { ...virgin },
+    },
+    {
+      id: "preConsumerScrap",
+      label: "Pre-consumer Scrap",
+      referenceProduct: "preConsumerScrap",
+      exchanges: { preConsumerScrap: 1 },
+      emissions: {},
+    },
+    {
+      id: "scrapMarket",
+      label: "Scrap Market",
+      referenceProduct: "postConsumerScrap",
+      exchanges: { postConsumerScrap: 1 },
+      emissions: {},
+    },
+    {
+      id: "useAndEndOfLife",
+      label: "Use Phase",
+      referenceProduct: FUNCTIONAL_PRODUCT,
+      exchanges: {
+        [FUNCTIONAL_PRODUCT]: 1,
+        metal: -1,
+        postConsumerScrap: collectionRate * recyclingYield,
+      },
+      emissions: {
+        landfill: 1 - collectionRate,
+        recyclingLoss: collectionRate * (1 - recyclingYield),
+      },
+    },
+  ],
+});
@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { allocationMethods } from "./allocation";
+import { alloys, type AlloyId } from "./alloys";
+import { impactCategoryIds } from "./characterization";
+import { energySourceIds, getMixTotal } from "./energy";
+import { emissionFactorSchema } from "./factor-library";
+import { metalIds } from "./metals";
+import { PATHWAY_BASE_YEAR, PATHWAY_END_YEAR } from "./pathways";
+import { transportFuelLabels, transportModes } from "./transport";
+import { uncertainParameterIds } from "./uncertainty";
+import type { AllocationMethod, ImpactCategoryId, ImpactKey, TransportFuel, TransportMode } from "./types";
+
+// Runtime twins of the interfaces in types.ts, shared by the client and the local
+// server. Without strictNullChecks zod infers every field as optional, so parsed
+// data is cast back to its interface.
+
+const enumOf = <T extends string>(values: T[]) => z.enum(values as [T, ...T[]]);
+
+const percent = (label: string) =>
+  z.number({ invalid_type_error: `${label} must be a number` }).min(0, `${label} cannot be below 0%`).max(100, `${label} cannot exceed 100%`);
+const fraction = z.number().min(0).max(1);
+
+const transportLegSchema = z.object({
+  id: z.string(),
+  label: z.string().trim().min(1, "Give the leg a name"),
+  mode: enumOf(Object.keys(transportModes) as TransportMode[]),
+  distance: z
+    .number({ invalid_type_error: "Distance must be a number" })
+    .min(0, "Distance cannot be negative")
+    .max(20000, "Distance seems unrealistic (>20,000 km)"),
+  fuel: enumOf(Object.keys(transportFuelLabels) as TransportFuel[]).optional(),
+  loadFactor: fraction.optional(),
+  emptyBackhaul: fraction.optional(),
+});
+
+const stageParametersSchema = z
+  .object({ electricity: z.number().min(0), directCo2: z.number().min(0), energy: z.number().min(0), water: z.number().min(0) })
+  .partial();
+
+export const lcaInputsSchema = z.object({
+  metal: enumOf(metalIds),
+  alloy: enumOf(Object.keys(alloys) as AlloyId[]).optional(),
+  recycledContent: percent("Recycled content"),
+  postConsumerShare: percent("Post-consumer share"),
+  energyMix: z
+    .record(enumOf(energySourceIds), z.number().min(0, "Energy shares cannot be negative"))
+    .refine((mix) => Math.abs(getMixTotal(mix) - 100) < 0.5, "Energy mix shares must add up to 100%"),
+  gridRegion: z.string().optional(),
+  transportLegs: z.array(transportLegSchema),
+  endOfLife: z.enum(["landfill", "recycling"]),
+  stageParameters: z.record(z.string(), stageParametersSchema).optional(),
+  circularityParameters: z
+    .object({ collectionRate: percent("Collection rate"), lifetimeRatio: z.number().positive(), usageIntensityRatio: z.number().positive() })
+    .partial()
+    .optional(),
+  allocationMethod: enumOf(Object.keys(allocationMethods) as AllocationMethod[]),
+  cffParameters: z.object({ a: fraction, r2: fraction, qsQp: fraction }).partial().optional(),
+  quantity: z.number({ invalid_type_error: "Quantity must be a number" }).positive("Quantity must be greater than 0"),
+  factorDatabase: z.string().optional(),
+  targetYear: z.number().int().min(PATHWAY_BASE_YEAR).max(PATHWAY_END_YEAR).optional(),
+});
+
+export const factorLibrarySchema = z.object({
+  factors: z.array(emissionFactorSchema),
+  audit: z.array(
+    z.object({
+      id: z.string(),
+      factorId: z.string(),
+      action: z.enum(["add", "clone", "edit", "import"]),
+      author: z.string(),
+      reason: z.string(),
+      timestamp: z.string(),
+      changes: z.array(
+        z.object({
+          field: emissionFactorSchema.keyof(),
+          from: z.union([z.string(), z.number()]).optional(),
+          to: z.union([z.string(), z.number()]),
+        }),
+      ),
+    }),
+  ),
+});
+
+const impactTotalsSchema = z.object({ co2: z.number(), energy: z.number(), water: z.number() });
+const numberRecord = z.record(z.string(), z.number());
+const score = z.number().min(1).max(5);
+
+export const lcaResultSchema = z.object({
+  inputs: lcaInputsSchema,
+  inventory: z.array(
+    z.object({
+      from: z.string(),
+      to: z.string(),
+      value: z.number(),
+      unit: z.enum(["t", "GJ"]),
+      type: z.enum(["primary", "recycled", "energy", "transport", "waste", "circular"]),
+      stage: z.enum(["inputs", "production", "distribution", "endOfLife", "recovery"]),
+      detail: z.string().optional(),
+    }),
+  ),
+  lci: z.object({
+    scaling: numberRecord,
+    inventory: numberRecord,
+    exchanges: z.array(z.object({ process: z.string(), product: z.string(), amount: z.number() })),
+  }),
+  impacts: impactTotalsSchema,
+  categories: z.object(
+    Object.fromEntries(impactCategoryIds.map((id) => [id, z.number()])) as Record<ImpactCategoryId, z.ZodNumber>,
+  ),
+  dataQuality: z.object({
+    dqr: score,
+    rating: z.enum(["Excellent", "Very good", "Good", "Fair", "Poor"]),
+    parameters: z.array(
+      z.object({
+        parameter: enumOf(uncertainParameterIds),
+        pedigree: z.tuple([score, score, score, score, score]),
+        dqr: score,
+        weight: fraction,
+      }),
+    ),
+  }),
+  factorDatabase: z.object({ version: z.string(), released: z.string(), notes: z.string(), basedOn: z.string().optional() }),
+  contributions: z.array(
+    z.object({ stage: z.string(), category: z.enum(["production", "transport", "endOfLife"]), impacts: impactTotalsSchema }),
+  ),
+  stages: z.array(z.object({ id: z.string(), label: z.string(), impacts: impactTotalsSchema })),
+  energySupply: z.object({
+    label: z.string(),
+    intensity: z.number(),
+    co2Factor: z.number(),
+    renewableShare: fraction,
+    shares: z.array(
+      z.object({ source: enumOf(energySourceIds), label: z.string(), share: fraction, intensity: z.number() }),
+    ),
+    gridRegion: z.string().optional(),
+  }),
+  allocation: z.object({
+    method: enumOf(Object.keys(allocationMethods) as AllocationMethod[]),
+    label: z.string(),
+    parameters: z.object({ a: z.number(), r1: z.number(), r2: z.number(), qsQp: z.number() }),
+  }),
+  circularity: z.object({
+    recycledContent: z.number(),
+    preConsumerContent: z.number(),
+    postConsumerContent: z.number(),
+    materialQuality: z.number(),
+    recoveryRate: z.number(),
+    linearFlowShare: z.number(),
+    circularityIndex: z.number(),
+    mci: z.object({
+      mci: z.number(),
+      linearFlowIndex: z.number(),
+      utility: z.number(),
+      utilityFactor: z.number(),
+      virginFeedstock: z.number(),
+      unrecoverableWaste: z.number(),
+    }),
+    materialLoops: z.number(),
+  }),
+  cost: z.object({ materialCost: z.number(), costSavings: z.number() }),
+});
+
+const uncertaintySummarySchema = z.object({
+  median: z.number(),
+  mean: z.number(),
+  p5: z.number(),
+  p95: z.number(),
+  histogram: z.array(z.object({ from: z.number(), to: z.number(), count: z.number().int().nonnegative() })),
+});
+
+export const monteCarloResultSchema = z.object({
+  iterations: z.number().int().positive(),
+  seed: z.number().int(),
+  pedigreeWidened: z.boolean(),
+  impacts: z.record(z.string(), uncertaintySummarySchema),
+});
+
+const sensitivityPointSchema = z.object({ value: z.number(), output: z.number() });
+
+export const sensitivityResultSchema = z.object({
+  method: z.enum(["oat", "morris", "sobol"]),
+  metric: enumOf(["co2", "energy", "water", ...impactCategoryIds] as ImpactKey[]),
+  baseline: z.number(),
+  evaluations: z.number().int().positive(),
+  entries: z.array(
+    z.object({
+      parameter: z.string(),
+      label: z.string(),
+      importance: z.number(),
+      low: sensitivityPointSchema.optional(),
+      high: sensitivityPointSchema.optional(),
+      sigma: z.number().optional(),
+      firstOrder: z.number().optional(),
+      importanceInterval: z.tuple([z.number(), z.number()]).optional(),
+      firstOrderInterval: z.tuple([z.number(), z.number()]).optional(),
+    }),
+  ),
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import {
+  estimateSobolIndices,
+  getSensitivityParameters,
+  getSensitivityRunCount,
+  runMorris,
+  runOneAtATime,
+  runSobol,
+  sampleSobol,
+  type SensitivityRunProgress,
+} from "./sensitivity";
+import { createRandom } from "./uncertainty";
+import { mineToPort, testInputs } from "./test-fixtures";
+import type { LCAInputs } from "./types";
+
+const inputs: LCAInputs = { ...testInputs, recycledContent: 0, transportLegs: [mineToPort] };
+
+// Ishigami function with a = 7, b = 0.1 on [−π, π]³, the standard test for Sobol estimators
+const ishigami = (unit: number[]) => {
+  const [x1, x2, x3] = unit.map((value) => -Math.PI + 2 * Math.PI * value);
+  return Math.sin(x1) + 7 * Math.sin(x2) ** 2 + 0.1 * x3 ** 4 * Math.sin(x1);
+};
+
+describe("getSensitivityParameters", () => {
+  it("leaves out parameters that cannot move the result", () => {
+    const parameters = getSensitivityParameters({ ...inputs, endOfLife: "landfill", transportLegs: [] });
+    expect(parameters).not.toContain("collectionRate");
+    expect(parameters).not.toContain("postConsumerShare");
+    expect(parameters).not.toContain("transportDistance");
+  });
+});
+
+describe("getSensitivityRunCount", () => {
+  it("counts the engine runs each method costs", () => {
+    expect(getSensitivityRunCount(inputs, "oat")).toBe(runOneAtATime(inputs, "co2").evaluations);
+    expect(getSensitivityRunCount(inputs, "morris", 4)).toBe(runMorris(inputs, "co2", 4).evaluations);
+    expect(getSensitivityRunCount(inputs, "sobol", 16)).toBe(runSobol(inputs, "co2", 16).evaluations);
+  });
+});
+
+describe("runOneAtATime", () => {
+  it("steps a parameter at zero by a share of its range", () => {
+    const result = runOneAtATime(inputs, "co2", 0.1);
+    const recycled = result.entries.find(({ parameter }) => parameter === "recycledContent");
+    expect(recycled.low.value).toBe(0);
+    expect(recycled.high.value).toBe(10);
+    expect(recycled.importance).toBeGreaterThan(0);
+  });
+
+  it("steps other parameters relative to their value", () => {
+    const result = runOneAtATime({ ...inputs, recycledContent: 50 }, "co2", 0.1);
+    const recycled = result.entries.find(({ parameter }) => parameter === "recycledContent");
+    expect(recycled.low.value).toBeCloseTo(45);
+    expect(recycled.high.value).toBeCloseTo(55);
+  });
+
+  it("ranks the most influential parameter first and reports progress to the end", () => {
+    const progress: number[] = [];
+    const result = runOneAtATime(inputs, "co2", "range", (completed) => progress.push(completed));
+    result.entries.slice(1).forEach((entry, index) => expect(entry.importance).toBeLessThanOrEqual(result.entries[index].importance));
+    expect(progress[progress.length - 1]).toBe(result.evaluations);
+  });
+});
+
+describe("runMorris", () => {
+  it("costs one run per step of every trajectory plus the baseline", () => {
+    const k = getSensitivityParameters(inputs).length;
+    expect(runMorris(inputs, "co2", 4).evaluations).toBe(4 * (k + 1) + 1);
+  });
+});
+
+describe("estimateSobolIndices", () => {
+  it("recovers the Ishigami function's analytical indices", () => {
+    const indices = estimateSobolIndices(ishigami, 3, 8192, createRandom(7));
+    const firstOrder = [0.3139, 0.4424, 0];
+    const totalOrder = [0.5576, 0.4424, 0.2437];
+    indices.forEach((index, i) => {
+      expect(index.firstOrder).toBeCloseTo(firstOrder[i], 1);
+      expect(index.totalOrder).toBeCloseTo(totalOrder[i], 1);
+    });
+  });
+
+  it("brackets the analytical indices with its bootstrap intervals", () => {
+    const indices = estimateSobolIndices(ishigami, 3, 2048, createRandom(3));
+    const firstOrder = [0.3139, 0.4424, 0];
+    const totalOrder = [0.5576, 0.4424, 0.2437];
+    indices.forEach((index, i) => {
+      expect(index.firstOrderInterval[0]).toBeLessThanOrEqual(firstOrder[i]);
+      expect(index.firstOrderInterval[1]).toBeGreaterThanOrEqual(firstOrder[i]);
+      expect(index.totalOrderInterval[0]).toBeLessThanOrEqual(totalOrder[i]);
+      expect(index.totalOrderInterval[1]).toBeGreaterThanOrEqual(totalOrder[i]);
+    });
+  });
+
+  it("gives zero for a constant model", () => {
+    const zero = { firstOrder: 0, totalOrder: 0, firstOrderInterval: [0, 0], totalOrderInterval: [0, 0] };
+    expect(estimateSobolIndices(() => 1, 2, 16, createRandom(1))).toEqual([zero, zero]);
+  });
+});
+
+describe("sampleSobol", () => {
+  it("yields its progress in batches of engine runs before the result", () => {
+    const run = sampleSobol(inputs, "co2", 64);
+    const steps: SensitivityRunProgress[] = [];
+    let step = run.next();
+    for (; !step.done; step = run.next()) steps.push(step.value as SensitivityRunProgress);
+    const total = getSensitivityRunCount(inputs, "sobol", 64);
+    expect(steps[0]).toEqual({ completed: 0, total });
+    expect(steps.length).toBeGreaterThan(total / 100);
+    steps.slice(1).forEach(({ completed }, index) => expect(completed).toBeGreaterThan(steps[index].completed));
+    expect(step.value).toMatchObject({ method: "sobol", evaluations: total });
+  });
+});
+
+describe("runSobol", () => {
+  it("reports each index inside its confidence interval", () => {
+    const result = runSobol({ ...inputs, recycledContent: 40 }, "co2", 128);
+    result.entries.forEach(({ firstOrder, firstOrderInterval, importance, importanceInterval }) => {
+      expect(firstOrder).toBeGreaterThanOrEqual(firstOrderInterval[0]);
+      expect(firstOrder).toBeLessThanOrEqual(firstOrderInterval[1]);
+      expect(importance).toBeGreaterThanOrEqual(importanceInterval[0]);
+      expect(importance).toBeLessThanOrEqual(importanceInterval[1]);
+    });
+  });
+});
@@ -0,0 +1,413 @@
+import { calculateLCA, defaultCircularityParameters } from "./engine";
+import { createRandom, getDistributionRange, getImpactValues, percentile, uncertainParameters } from "./uncertainty";
+import type {
+  ImpactKey,
+  LCAInputs,
+  ParameterMultipliers,
+  SensitivityEntry,
+  SensitivityMethod,
+  SensitivityParameterId,
+  SensitivityResult,
+  UncertainParameterId,
+} from "./types";
+
+// A point in parameter space: scenario inputs plus factor multipliers
+interface ModelPoint {
+  inputs: LCAInputs;
+  multipliers: ParameterMultipliers;
+}
+
+interface SensitivityParameter {
+  label: string;
+  baseline: (inputs: LCAInputs) => number;
+  range: [number, number];
+  apply: (point: ModelPoint, value: number) => ModelPoint;
+}
+
+const inputParameters: Record<Exclude<SensitivityParameterId, UncertainParameterId>, SensitivityParameter> = {
+  recycledContent: {
+    label: "Recycled content",
+    baseline: (inputs) => inputs.recycledContent,
+    range: [0, 100],
+    apply: (point, value) => ({ ...point, inputs: { ...point.inputs, recycledContent: value } }),
+  },
+  postConsumerShare: {
+    label: "Post-consumer share of scrap",
+    baseline: (inputs) => inputs.postConsumerShare,
+    range: [0, 100],
+    apply: (point, value) => ({ ...point, inputs: { ...point.inputs, postConsumerShare: value } }),
+  },
+  collectionRate: {
+    label: "End-of-life collection rate",
+    baseline: (inputs) => inputs.circularityParameters?.collectionRate ?? defaultCircularityParameters.collectionRate,
+    range: [0, 100],
+    apply: (point, value) => ({
+      ...point,
+      inputs: { ...point.inputs, circularityParameters: { ...point.inputs.circularityParameters, collectionRate: value } },
+    }),
+  },
+  // Scales every leg, so the ratio between legs is preserved
+  transportDistance: {
+    label: "Transport distances",
+    baseline: () => 1,
+    range: [0.5, 2],
+    apply: (point, value) => ({
+      ...point,
+      inputs: {
+        ...point.inputs,
+        transportLegs: point.inputs.transportLegs.map((leg) => ({ ...leg, distance: leg.distance * value })),
+      },
+    }),
+  },
+};
+
+// Emission factors are varied through the engine's multipliers across their uncertainty range
+const factorParameter = (id: UncertainParameterId): SensitivityParameter => ({
+  label: uncertainParameters[id].label,
+  baseline: () => 1,
+  range: getDistributionRange(uncertainParameters[id].distribution),
+  apply: (point, value) => ({ ...point, multipliers: { ...point.multipliers, [id]: value } }),
+});
+
+export const sensitivityParameters: Record<SensitivityParameterId, SensitivityParameter> = {
+  ...inputParameters,
+  primaryBurden: factorParameter("primaryBurden"),
+  secondaryBurden: factorParameter("secondaryBurden"),
+  gridIntensity: factorParameter("gridIntensity"),
+  transportIntensity: factorParameter("transportIntensity"),
+  processEmissions: factorParameter("processEmissions"),
+};
+
+/** Parameters that can move the result for these inputs; collection only matters when recycling. */
+export const getSensitivityParameters = (inputs: LCAInputs): SensitivityParameterId[] =>
+  (Object.keys(sensitivityParameters) as SensitivityParameterId[]).filter(
+    (id) =>
+      (id !== "collectionRate" || inputs.endOfLife === "recycling") &&
+      (id !== "postConsumerShare" || inputs.recycledContent > 0) &&
+      (id !== "transportDistance" || inputs.transportLegs.length > 0),
+  );
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(max, Math.max(min, value));
+
+// Engine runs between progress reports; a report per run would flood a worker's message queue
+const PROGRESS_INTERVAL = 50;
+
+// Sizes of a dashboard run
+const MORRIS_TRAJECTORIES = 20;
+const SOBOL_SAMPLES = 512;
+
+// Resamples behind each Sobol index's 95% confidence interval
+const SOBOL_BOOTSTRAP = 200;
+
+// Engine runs an analysis of k parameters costs, including the baseline
+const runCounts: Record<SensitivityMethod, (k: number, size: number) => number> = {
+  oat: (k) => 1 + 2 * k,
+  morris: (k, trajectories) => trajectories * (k + 1) + 1,
+  sobol: (k, samples) => samples * (k + 2) + 1,
+};
+
+/** Engine runs an analysis of these inputs costs; `size` is the Morris trajectories or Sobol samples. */
+export const getSensitivityRunCount = (
+  inputs: LCAInputs,
+  method: SensitivityMethod,
+  size = method === "sobol" ? SOBOL_SAMPLES : MORRIS_TRAJECTORIES,
+) => runCounts[method](getSensitivityParameters(inputs).length, size);
+
+/** Called with the engine runs completed so far and the runs the analysis needs in total. */
+export type SensitivityProgress = (completed: number, total: number) => void;
+
+/**
+ * An analysis written as a generator: it yields the engine runs completed and needed
+ * in total every few dozen runs, so a caller can report progress, hand control back
+ * or stop early, and returns the result.
+ */
+export type SensitivityRun = Generator<SensitivityRunProgress, SensitivityResult, void>;
+
+export interface SensitivityRunProgress {
+  completed: number;
+  total: number;
+}
+
+const createModel = (inputs: LCAInputs, metric: ImpactKey, total: number) => {
+  let evaluations = 0;
+  let reported = 0;
+  const evaluate = (point: ModelPoint) => {
+    evaluations += 1;
+    return getImpactValues(calculateLCA(point.inputs, point.multipliers))[metric];
+  };
+  // Sets each parameter from a position in the unit hypercube mapped onto its range
+  const evaluateUnit = (parameters: SensitivityParameterId[], unit: number[]) =>
+    evaluate(
+      parameters.reduce((point, id, index) => {
+        const [min, max] = sensitivityParameters[id].range;
+        return sensitivityParameters[id].apply(point, min + unit[index] * (max - min));
+      }, { inputs, multipliers: {} } as ModelPoint),
+    );
+  const isProgressDue = () => evaluations - reported >= PROGRESS_INTERVAL;
+  const progress = () => {
+    reported = evaluations;
+    return { completed: evaluations, total };
+  };
+  return { evaluate, evaluateUnit, evaluations: () => evaluations, isProgressDue, progress };
+};
+
+// Runs an analysis to the end in one go, reporting its progress and finally its full count
+const complete = (run: SensitivityRun, onProgress?: SensitivityProgress): SensitivityResult => {
+  for (;;) {
+    const step = run.next();
+    if (step.done) {
+      const { evaluations } = step.value as SensitivityResult;
+      onProgress?.(evaluations, evaluations);
+      return step.value as SensitivityResult;
+    }
+    const { completed, total } = step.value as SensitivityRunProgress;
+    onProgress?.(completed, total);
+  }
+};
+
+const rank = (entries: SensitivityEntry[]) => [...entries].sort((a, b) => b.importance - a.importance);
+
+/**
+ * One-at-a-time analysis: moves each parameter to its low and high value with the
+ * others held at baseline. `spread` is a relative step (0.1 = ±10%) or "range" for
+ * the parameter's full plausible range. A parameter at zero, where a relative step
+ * would not move it, is stepped by that share of its range instead.
+ */
+export function* sampleOneAtATime(inputs: LCAInputs, metric: ImpactKey, spread: number | "range" = 0.1): SensitivityRun {
+  const parameters = getSensitivityParameters(inputs);
+  const model = createModel(inputs, metric, getSensitivityRunCount(inputs, "oat"));
+  yield model.progress();
+  const origin: ModelPoint = { inputs, multipliers: {} };
+  const baseline = model.evaluate(origin);
+
+  const entries: SensitivityEntry[] = [];
+  for (const id of parameters) {
+    const parameter = sensitivityParameters[id];
+    const value = parameter.baseline(inputs);
+    const [min, max] = parameter.range;
+    const step = spread === "range" ? 0 : value !== 0 ? Math.abs(value) * spread : spread * (max - min);
+    const [lowValue, highValue] =
+      spread === "range"
+        ? parameter.range
+        : [clamp(value - step, parameter.range), clamp(value + step, parameter.range)];
+    const low = { value: lowValue, output: model.evaluate(parameter.apply(origin, lowValue)) };
+    const high = { value: highValue, output: model.evaluate(parameter.apply(origin, highValue)) };
+    entries.push({
+      parameter: id,
+      label: parameter.label,
+      importance: Math.abs(high.output - low.output),
+      low,
+      high,
+    });
+    if (model.isProgressDue()) yield model.progress();
+  }
+
+  return { method: "oat", metric, baseline, evaluations: model.evaluations(), entries: rank(entries) };
+}
+
+export const runOneAtATime = (
+  inputs: LCAInputs,
+  metric: ImpactKey,
+  spread: number | "range" = 0.1,
+  onProgress?: SensitivityProgress,
+): SensitivityResult => complete(sampleOneAtATime(inputs, metric, spread), onProgress);
+
+// Fisher–Yates, so every order of the parameters is equally likely
+const shuffle = <T>(values: T[], random: () => number): T[] => {
+  for (let i = values.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [values[i], values[j]] = [values[j], values[i]];
+  }
+  return values;
+};
+
+/**
+ * Morris elementary effects screening on a 4-level grid. μ* ranks overall
+ * influence; a large σ flags interactions or non-linear response.
+ */
+export function* sampleMorris(
+  inputs: LCAInputs,
+  metric: ImpactKey,
+  trajectories = MORRIS_TRAJECTORIES,
+  seed = 1,
+): SensitivityRun {
+  const parameters = getSensitivityParameters(inputs);
+  const model = createModel(inputs, metric, getSensitivityRunCount(inputs, "morris", trajectories));
+  yield model.progress();
+  const random = createRandom(seed);
+  const delta = 2 / 3; // p / (2(p − 1)) for p = 4 levels
+  const effects = parameters.map(() => [] as number[]);
+
+  for (let t = 0; t < trajectories; t++) {
+    // Start on the lower half of the grid so every step of +Δ stays inside [0, 1]
+    const point = parameters.map(() => (random() < 0.5 ? 0 : 1 / 3));
+    let output = model.evaluateUnit(parameters, point);
+    const order = shuffle(parameters.map((_, index) => index), random);
+    order.forEach((index) => {
+      point[index] += delta;
+      const next = model.evaluateUnit(parameters, point);
+      effects[index].push((next - output) / delta);
+      output = next;
+    });
+    if (model.isProgressDue()) yield model.progress();
+  }
+
+  const entries = parameters.map((id, index): SensitivityEntry => {
+    const values = effects[index];
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return {
+      parameter: id,
+      label: sensitivityParameters[id].label,
+      importance: values.reduce((sum, value) => sum + Math.abs(value), 0) / values.length,
+      sigma: Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length - 1)),
+    };
+  });
+
+  return {
+    method: "morris",
+    metric,
+    baseline: model.evaluate({ inputs, multipliers: {} }),
+    evaluations: model.evaluations(),
+    entries: rank(entries),
+  };
+}
+
+export const runMorris = (
+  inputs: LCAInputs,
+  metric: ImpactKey,
+  trajectories = MORRIS_TRAJECTORIES,
+  seed = 1,
+  onProgress?: SensitivityProgress,
+): SensitivityResult => complete(sampleMorris(inputs, metric, trajectories, seed), onProgress);
+
+type SobolIndices = {
+  firstOrder: number;
+  totalOrder: number;
+  firstOrderInterval: [number, number];
+  totalOrderInterval: [number, number];
+}[];
+
+/**
+ * First- and total-order Sobol indices of a model on the unit hypercube, from two
+ * independent sample matrices A and B and one matrix per dimension with that column
+ * taken from B. First-order indices use the Saltelli (2010) estimator with the output
+ * centred on its mean, total-order indices the Jansen estimator. Both are reported as
+ * estimated, so a first-order index can come out below zero or above the total-order
+ * one; the bootstrap interval shows how far sampling noise reaches. Costs
+ * samples × (dimensions + 2) model runs, and yields every few dozen of them.
+ */
+export function* sampleSobolIndices(
+  model: (point: number[]) => number,
+  dimensions: number,
+  samples: number,
+  random: () => number,
+): Generator<void, SobolIndices, void> {
+  const matrix = () => Array.from({ length: samples }, () => Array.from({ length: dimensions }, () => random()));
+  const a = matrix();
+  const b = matrix();
+
+  const outputs = function* (rows: number[][]) {
+    const values: number[] = [];
+    for (const row of rows) {
+      values.push(model(row));
+      if (values.length % PROGRESS_INTERVAL === 0) yield;
+    }
+    return values;
+  };
+
+  const fA = yield* outputs(a);
+  const fB = yield* outputs(b);
+  const fAB: number[][] = [];
+  for (let index = 0; index < dimensions; index++) {
+    fAB.push(yield* outputs(a.map((row, j) => row.map((value, k) => (k === index ? b[j][k] : value)))));
+  }
+
+  // Indices from the given sample rows, so bootstrap resamples reuse the model runs
+  const estimate = (rows: number[]) => {
+    const all = rows.flatMap((j) => [fA[j], fB[j]]);
+    const mean = all.reduce((sum, value) => sum + value, 0) / all.length;
+    const variance = all.reduce((sum, value) => sum + (value - mean) ** 2, 0) / all.length;
+    return fAB.map((fABi) =>
+      variance <= 0
+        ? { firstOrder: 0, totalOrder: 0 }
+        : {
+            firstOrder: rows.reduce((sum, j) => sum + (fB[j] - mean) * (fABi[j] - fA[j]), 0) / rows.length / variance,
+            totalOrder: rows.reduce((sum, j) => sum + (fA[j] - fABi[j]) ** 2, 0) / (2 * rows.length) / variance,
+          },
+    );
+  };
+
+  const resamples = Array.from({ length: SOBOL_BOOTSTRAP }, () =>
+    estimate(Array.from({ length: samples }, () => Math.floor(random() * samples))),
+  );
+  const interval = (values: number[]): [number, number] => {
+    const sorted = [...values].sort((x, y) => x - y);
+    return [percentile(sorted, 0.025), percentile(sorted, 0.975)];
+  };
+
+  return estimate(a.map((_, j) => j)).map((index, i) => ({
+    ...index,
+    firstOrderInterval: interval(resamples.map((resample) => resample[i].firstOrder)),
+    totalOrderInterval: interval(resamples.map((resample) => resample[i].totalOrder)),
+  }));
+}
+
+/** Runs sampleSobolIndices to the end in one go. */
+export const estimateSobolIndices = (
+  model: (point: number[]) => number,
+  dimensions: number,
+  samples: number,
+  random: () => number,
+): SobolIndices => {
+  const estimate = sampleSobolIndices(model, dimensions, samples, random);
+  for (;;) {
+    const step = estimate.next();
+    if (step.done) return step.value;
+  }
+};
+
+/** Sobol indices for each parameter across its plausible range. */
+export function* sampleSobol(inputs: LCAInputs, metric: ImpactKey, samples = SOBOL_SAMPLES, seed = 1): SensitivityRun {
+  const parameters = getSensitivityParameters(inputs);
+  const model = createModel(inputs, metric, getSensitivityRunCount(inputs, "sobol", samples));
+  yield model.progress();
+  const estimate = sampleSobolIndices(
+    (point) => model.evaluateUnit(parameters, point),
+    parameters.length,
+    samples,
+    createRandom(seed),
+  );
+  let step = estimate.next();
+  while (!step.done) {
+    yield model.progress();
+    step = estimate.next();
+  }
+  const indices = step.value;
+
+  const entries = parameters.map(
+    (id, index): SensitivityEntry => ({
+      parameter: id,
+      label: sensitivityParameters[id].label,
+      importance: indices[index].totalOrder,
+      importanceInterval: indices[index].totalOrderInterval,
+      firstOrder: indices[index].firstOrder,
+      firstOrderInterval: indices[index].firstOrderInterval,
+    }),
+  );
+
+  return {
+    method: "sobol",
+    metric,
+    baseline: model.evaluate({ inputs, multipliers: {} }),
+    evaluations: model.evaluations(),
+    entries: rank(entries),
+  };
+}
+
+export const runSobol = (
+  inputs: LCAInputs,
+  metric: ImpactKey,
+  samples = SOBOL_SAMPLES,
+  seed = 1,
+  onProgress?: SensitivityProgress,
+): SensitivityResult => complete(sampleSobol(inputs, metric, samples, seed), onProgress);
@@ -0,0 +1,123 @@
+import type { ElementId } from "./alloys";
+import type { MetalId } from "./metals";
+import type { ImpactTotals, StageParameters } from "./types";
+
+export interface ProcessStage extends StageParameters {
+  id: string;
+  label: string;
+  description: string;
+}
+
+// Primary production routes as unit processes, per kg of finished metal. They split the
+// factor database's primary factor between stages: the engine scales each route so that
+// at the 480 g/kWh reference grid it sums to the factor of the release or library in use.
+export const processRoutes: Partial<Record<MetalId, ProcessStage[]>> = {
+  aluminum: [
+    {
+      id: "bauxiteMining",
+      label: "Bauxite mining",
+      description: "Open-cut mining and beneficiation of ~5 kg bauxite",
+      electricity: 0.05,
+      directCo2: 0.03,
+      energy: 1,
+      water: 50,
+    },
+    {
+      id: "bayer",
+      label: "Bayer alumina",
+      description: "Digestion and calcination of ~1.93 kg alumina",
+      electricity: 0.4,
+      directCo2: 1.5,
+      energy: 30,
+      water: 600,
+    },
+    {
+      id: "anode",
+      label: "Anode production",
+      description: "Baking of ~0.45 kg prebaked carbon anode",
+      electricity: 0.1,
+      directCo2: 0.6,
+      energy: 12,
+      water: 50,
+    },
+    {
+      id: "electrolysis",
+      label: "Hall-Héroult electrolysis",
+      description: "Smelting cell power, anode oxidation and PFC emissions",
+      electricity: 15.5,
+      directCo2: 1.6,
+      energy: 119,
+      water: 750,
+    },
+    {
+      id: "casting",
+      label: "Casting",
+      description: "Holding furnace and ingot or billet casting",
+      electricity: 0.3,
+      directCo2: 0.25,
+      energy: 8,
+      water: 100,
+    },
+  ],
+  copper: [
+    {
+      id: "copperMining",
+      label: "Mining",
+      description: "Ore extraction and haulage at ~0.6% Cu grade",
+      electricity: 1.5,
+      directCo2: 0.9,
+      energy: 18,
+      water: 120,
+    },
+    {
+      id: "concentration",
+      label: "Concentration",
+      description: "Crushing, grinding and flotation to ~28% Cu concentrate",
+      electricity: 2.0,
+      directCo2: 0.05,
+      energy: 20,
+      water: 200,
+    },
+    {
+      id: "smelting",
+      label: "Smelting",
+      description: "Flash smelting of concentrate to matte",
+      electricity: 0.6,
+      directCo2: 0.65,
+      energy: 12,
+      water: 40,
+    },
+    {
+      id: "converting",
+      label: "Converting",
+      description: "Converting matte to blister copper",
+      electricity: 0.2,
+      directCo2: 0.25,
+      energy: 4,
+      water: 20,
+    },
+    {
+      id: "electrorefining",
+      label: "Electrorefining",
+      description: "Anode casting and electrolytic refining to cathode",
+      electricity: 0.5,
+      directCo2: 0.05,
+      energy: 11,
+      water: 60,
+    },
+  ],
+};
+
+/** The metal's primary route with any analyst overrides applied, or undefined if it has none. */
+export const getProcessStages = (
+  element: ElementId,
+  overrides: Record<string, Partial<StageParameters>> = {},
+): ProcessStage[] | undefined =>
+  processRoutes[element as MetalId]?.map((stage) => ({ ...stage, ...overrides[stage.id] }));
+
+/** Burden of one stage per kg of metal for a supply of the given carbon intensity (g/kWh). */
+export const calculateStage = (stage: StageParameters, gridIntensity: number): ImpactTotals => ({
+  co2: stage.directCo2 + (stage.electricity * gridIntensity) / 1000,
+  energy: stage.energy,
+  water: stage.water,
+});
@@ -0,0 +1,18 @@
+import type { LCAInputs, TransportLeg } from "./types";
+
+// Shared by the engine, analysis and service tests; each test overrides the fields it is about
+
+export const mineToPort: TransportLeg = { id: "leg-1", label: "Mine → Port", mode: "truck", distance: 150 };
+export const portToSmelter: TransportLeg = { id: "leg-2", label: "Port → Smelter", mode: "ship", distance: 3000 };
+
+/** A tonne of aluminium, 40% recycled, smelted on grid electricity and recycled at end of life. */
+export const testInputs: LCAInputs = {
+  metal: "aluminum",
+  recycledContent: 40,
+  postConsumerShare: 50,
+  energyMix: { grid: 100 },
+  transportLegs: [],
+  endOfLife: "recycling",
+  allocationMethod: "cff",
+  quantity: 1000,
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { getFactors } from "./factor-database";
+import { calculateTransport, createTransportLeg, resolveTransportFuel, transportModes } from "./transport";
+
+describe("resolveTransportFuel", () => {
+  it("keeps a fuel the mode supports and falls back to the mode's default otherwise", () => {
+    expect(resolveTransportFuel("truck", "electric")).toBe("electric");
+    expect(resolveTransportFuel("ship", "electric")).toBe("diesel");
+    expect(resolveTransportFuel("rail")).toBe("diesel");
+  });
+});
+
+describe("calculateTransport", () => {
+  it("charges the release's per-tkm factors at the reference load", () => {
+    const factors = getFactors();
+    const burden = calculateTransport("truck", 100, 2000);
+    expect(burden.co2).toBeCloseTo(200 * factors("transport.truck.diesel.co2"));
+    expect(burden.energy).toBeCloseTo(200 * factors("transport.truck.diesel.energy"));
+    expect(burden.water).toBe(0);
+  });
+
+  it("scales with how full the vehicle runs and how often it returns empty", () => {
+    const { referenceLoadFactor, emptyRunningRatio } = transportModes.truck;
+    const reference = calculateTransport("truck", 100, 1000).co2;
+    expect(calculateTransport("truck", 100, 1000, { loadFactor: referenceLoadFactor / 2 }).co2).toBeCloseTo(2 * reference);
+    expect(calculateTransport("truck", 100, 1000, { emptyBackhaul: 1 }).co2).toBeCloseTo(reference * (1 + emptyRunningRatio));
+  });
+});
+
+describe("createTransportLeg", () => {
+  it("gives each leg its own id and a fuel its mode supports", () => {
+    const first = createTransportLeg();
+    const second = createTransportLeg({ mode: "ship", fuel: "electric" });
+    expect(first).toMatchObject({ mode: "truck", fuel: "diesel", distance: 100 });
+    expect(second.fuel).toBe("diesel");
+    expect(second.id).not.toBe(first.id);
+  });
+});
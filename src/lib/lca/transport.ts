@@ -0,0 +1,139 @@
+import { addFlows } from "./characterization";
+import { getProjectedFactors } from "./pathways";
+import type { ElementaryFlows, ImpactTotals, TransportFuel, TransportLeg, TransportMode } from "./types";
+
+// Per-tkm CO₂ and energy are in the factor database under "transport.<mode>.<fuel>"
+interface TransportFactor {
+  emissions: ElementaryFlows; // per MJ of fuel or electricity
+}
+
+// Exhaust profiles per MJ: Euro VI / Stage V engines on road and rail, 0.5% sulphur
+// marine fuel at sea, and an average grid behind electric traction
+const dieselExhaust: ElementaryFlows = { so2: 1e-6, nox: 7e-4, pm25: 2.5e-5, nmvoc: 5e-5, fossilEnergy: 1 };
+const lngExhaust: ElementaryFlows = { so2: 1e-7, nox: 3e-4, pm25: 3e-6, nmvoc: 1e-4, fossilEnergy: 1 };
+const gridElectricity: ElementaryFlows = { so2: 1.8e-4, nox: 1.4e-4, pm25: 1.3e-5, nmvoc: 3e-6, fossilEnergy: 0.62 };
+
+interface TransportModeProfile {
+  label: string;
+  referenceLoadFactor: number;
+  // Fuel burned by an empty vehicle relative to a loaded one
+  emptyRunningRatio: number;
+  defaultFuel: TransportFuel;
+  fuels: Partial<Record<TransportFuel, TransportFactor>>;
+}
+
+export const transportModes: Record<TransportMode, TransportModeProfile> = {
+  truck: {
+    label: "Truck",
+    referenceLoadFactor: 0.6,
+    emptyRunningRatio: 0.65,
+    defaultFuel: "diesel",
+    fuels: {
+      diesel: { emissions: dieselExhaust },
+      lng: { emissions: lngExhaust },
+      electric: { emissions: gridElectricity },
+    },
+  },
+  rail: {
+    label: "Rail",
+    referenceLoadFactor: 0.7,
+    emptyRunningRatio: 0.5,
+    defaultFuel: "diesel",
+    fuels: {
+      diesel: { emissions: dieselExhaust },
+      electric: { emissions: gridElectricity },
+    },
+  },
+  ship: {
+    label: "Ship",
+    referenceLoadFactor: 0.7,
+    emptyRunningRatio: 0.7,
+    defaultFuel: "diesel",
+    fuels: {
+      diesel: { emissions: { so2: 2.3e-4, nox: 1.5e-3, pm25: 6e-5, nmvoc: 5e-5, fossilEnergy: 1 } },
+      lng: { emissions: lngExhaust },
+    },
+  },
+};
+
+export const transportFuelLabels: Record<TransportFuel, string> = {
+  diesel: "Diesel",
+  lng: "LNG",
+  electric: "Battery / electric",
+};
+
+export interface TransportOptions {
+  fuel?: TransportFuel;
+  loadFactor?: number; // 0–1, share of payload capacity used
+  emptyBackhaul?: number; // 0–1, share of return trips driven empty
+  factorDatabase?: string; // release to read the per-tkm factors from; the latest when unset
+  targetYear?: number; // electric traction follows the grid pathway to this year
+}
+
+type LegFactorOptions = Pick<TransportOptions, "factorDatabase" | "targetYear">;
+
+/** Returns a fuel the mode supports, falling back to the mode's default. */
+export const resolveTransportFuel = (mode: TransportMode, fuel?: TransportFuel): TransportFuel =>
+  fuel && transportModes[mode].fuels[fuel] ? fuel : transportModes[mode].defaultFuel;
+
+/**
+ * Tonne-kilometre based transport burden. Per-tkm factors are scaled by how full
+ * the vehicle runs and by the extra distance driven empty on the way back.
+ */
+export const calculateTransport = (
+  mode: TransportMode,
+  distanceKm: number,
+  massKg: number,
+  options: TransportOptions = {},
+): ImpactTotals => {
+  const profile = transportModes[mode];
+  const factors = getProjectedFactors(options.factorDatabase, options.targetYear);
+  const factorId = `transport.${mode}.${resolveTransportFuel(mode, options.fuel)}`;
+  const loadFactor = Math.min(1, Math.max(0.05, options.loadFactor ?? profile.referenceLoadFactor));
+  const emptyBackhaul = Math.min(1, Math.max(0, options.emptyBackhaul ?? 0));
+
+  const tonneKm = (massKg / 1000) * distanceKm;
+  const multiplier = (profile.referenceLoadFactor / loadFactor) * (1 + emptyBackhaul * profile.emptyRunningRatio);
+
+  return {
+    co2: tonneKm * factors(`${factorId}.co2`) * multiplier,
+    energy: tonneKm * factors(`${factorId}.energy`) * multiplier,
+    water: 0,
+  };
+};
+
+export const calculateLegTransport = (
+  leg: TransportLeg,
+  massKg: number,
+  { factorDatabase, targetYear }: LegFactorOptions = {},
+): ImpactTotals =>
+  calculateTransport(leg.mode, leg.distance, massKg, {
+    fuel: leg.fuel,
+    loadFactor: leg.loadFactor,
+    emptyBackhaul: leg.emptyBackhaul,
+    factorDatabase,
+    targetYear,
+  });
+
+/** Elementary flows of one leg, from the fuel or electricity it consumes. */
+export const calculateLegFlows = (leg: TransportLeg, massKg: number, options: LegFactorOptions = {}): ElementaryFlows =>
+  addFlows(
+    {},
+    transportModes[leg.mode].fuels[resolveTransportFuel(leg.mode, leg.fuel)].emissions,
+    calculateLegTransport(leg, massKg, options).energy,
+  );
+
+let legCounter = 0;
+
+export const createTransportLeg = (leg: Partial<TransportLeg> = {}): TransportLeg => {
+  const mode = leg.mode ?? "truck";
+  legCounter += 1;
+  return {
+    id: `leg-${Date.now().toString(36)}-${legCounter}`,
+    label: "New leg",
+    distance: 100,
+    ...leg,
+    mode,
+    fuel: resolveTransportFuel(mode, leg.fuel),
+  };
+};
@@ -0,0 +1,332 @@
+import type { AlloyId, ElementId } from "./alloys";
+import type { LCISolution } from "./matrix";
+import type { MetalId } from "./metals";
+
+export type TransportMode = "truck" | "rail" | "ship";
+
+export type TransportFuel = "diesel" | "lng" | "electric";
+
+export interface TransportLeg {
+  id: string;
+  label: string; // e.g. "Mine → Port"
+  mode: TransportMode;
+  distance: number; // km
+  fuel?: TransportFuel;
+  loadFactor?: number; // 0–1
+  emptyBackhaul?: number; // 0–1
+}
+
+export type AllocationMethod = "cutoff" | "avoidedBurden" | "fiftyFifty" | "cff";
+
+// Circular Footprint Formula parameters, all as fractions
+export interface AllocationParameters {
+  a: number; // allocation of burdens and credits between supplier and user of recycled material
+  r1: number; // recycled content
+  r2: number; // end-of-life recycling output rate
+  qsQp: number; // quality of secondary relative to primary material
+}
+
+export type EnergySourceId = "coal" | "gas" | "hydro" | "solar" | "wind" | "nuclear" | "grid";
+
+// Percentage share of each source in the smelter's electricity supply
+export type EnergyMix = Partial<Record<EnergySourceId, number>>;
+
+// Product-level parameters of the Material Circularity Indicator
+export interface CircularityParameters {
+  collectionRate: number; // 0–100 % of product collected for recycling when recycled at end of life
+  lifetimeRatio: number; // product lifetime relative to the industry average
+  usageIntensityRatio: number; // functional units delivered relative to the industry average
+}
+
+// Editable parameters of one unit process, per kg of finished metal
+export interface StageParameters {
+  electricity: number; // kWh
+  directCo2: number; // kg CO₂-eq from fuels and process chemistry
+  energy: number; // MJ primary energy
+  water: number; // L
+}
+
+export interface LCAInputs {
+  metal: MetalId;
+  alloy?: AlloyId; // undefined for the pure metal
+  recycledContent: number; // 0–100 % of the metal input that is scrap
+  postConsumerShare: number; // 0–100 % of that scrap from end-of-life products
+  energyMix: EnergyMix;
+  gridRegion?: string; // grid region id, used for the "grid" share of the mix
+  transportLegs: TransportLeg[]; // in shipping order
+  endOfLife: "landfill" | "recycling";
+  stageParameters?: Record<string, Partial<StageParameters>>; // overrides keyed by stage id
+  circularityParameters?: Partial<CircularityParameters>;
+  allocationMethod: AllocationMethod;
+  cffParameters?: Partial<Omit<AllocationParameters, "r1">>; // only read by the "cff" method
+  quantity: number;
+  factorDatabase?: string; // factor database version; the latest release when unset
+  targetYear?: number; // year the decarbonisation pathways project the scenario to; today when unset
+}
+
+export type ScenarioType = "conventional" | "circular";
+
+export interface LCAScenario {
+  name: string;
+  type: ScenarioType;
+  inputs: LCAInputs;
+}
+
+export type FlowType = "primary" | "recycled" | "energy" | "transport" | "waste" | "circular";
+
+export type FlowStage = "inputs" | "production" | "distribution" | "endOfLife" | "recovery";
+
+export interface InventoryFlow {
+  from: string;
+  to: string;
+  value: number;
+  unit: "t" | "GJ";
+  type: FlowType;
+  stage: FlowStage;
+  detail?: string;
+}
+
+// Totals for the whole quantity: kg CO₂-eq, MJ and litres
+export interface ImpactTotals {
+  co2: number;
+  energy: number;
+  water: number;
+}
+
+// Emissions to air and water (kg), land occupation (m²·a), fossil energy (MJ) and mineral extraction (kg)
+export type EmissionId =
+  | "so2"
+  | "nox"
+  | "nh3"
+  | "nmvoc"
+  | "pm25"
+  | "phosphate"
+  | "arsenicAir"
+  | "cadmiumAir"
+  | "leadAir"
+  | "copperWater"
+  | "zincWater"
+  | "landOccupation"
+  | "fossilEnergy";
+
+export type ElementaryFlowId = EmissionId | `resource:${ElementId}`;
+
+export type ElementaryFlows = Partial<Record<ElementaryFlowId, number>>;
+
+export type ImpactCategoryId =
+  | "acidification"
+  | "eutrophication"
+  | "photochemicalOzone"
+  | "particulateMatter"
+  | "humanToxicity"
+  | "ecotoxicity"
+  | "mineralDepletion"
+  | "fossilDepletion"
+  | "landUse";
+
+// Pedigree matrix scores (Weidema & Wesnæs), each from 1 (best) to 5
+export type PedigreeScore = [
+  reliability: number,
+  completeness: number,
+  temporal: number,
+  geographical: number,
+  technological: number,
+];
+
+export type DataQualityRating = "Excellent" | "Very good" | "Good" | "Fair" | "Poor";
+
+export interface DataQuality {
+  dqr: number; // data quality rating, 1 (best) to 5, weighted by each factor's share of CO₂
+  rating: DataQualityRating;
+  parameters: {
+    parameter: UncertainParameterId;
+    pedigree: PedigreeScore;
+    dqr: number;
+    weight: number; // 0–1 share in the overall rating
+  }[];
+}
+
+export type FactorCategory = "metal" | "energy" | "grid" | "transport" | "endOfLife" | "characterization";
+
+// One numeric factor with the provenance an auditor needs to trace it
+export interface EmissionFactor {
+  id: string; // e.g. "aluminum.primary.co2", "grid.CN-YN", "characterization.acidification.so2"
+  category: FactorCategory;
+  label: string;
+  value: number;
+  unit: string;
+  source: string;
+  year: number; // reference year of the underlying data
+  geography: string; // ISO code, "GLO" or "RER"
+  licence: string;
+  pedigree?: PedigreeScore; // data quality of the value; bundled factors always have one
+}
+
+export interface FactorDatabaseRelease {
+  version: string; // "YYYY.N", or "local" for a release with the analyst's library on top
+  released: string; // ISO date
+  notes: string;
+  basedOn?: string; // release the local library was applied to
+}
+
+export interface FactorDatabase extends FactorDatabaseRelease {
+  factors: EmissionFactor[];
+}
+
+export type FactorAuditAction = "add" | "clone" | "edit" | "import";
+
+export interface FactorAuditEntry {
+  id: string;
+  factorId: string;
+  action: FactorAuditAction;
+  author: string;
+  reason: string;
+  timestamp: string; // ISO date-time
+  changes: { field: keyof EmissionFactor; from?: string | number; to: string | number }[];
+}
+
+// Factors the analyst added or edited, overriding bundled ones with the same id
+export interface FactorLibrary {
+  factors: EmissionFactor[];
+  audit: FactorAuditEntry[]; // oldest first
+}
+
+// Engine factors that carry uncertainty; a multiplier of 1 is the deterministic value
+export type UncertainParameterId =
+  | "primaryBurden"
+  | "secondaryBurden"
+  | "gridIntensity"
+  | "transportIntensity"
+  | "processEmissions";
+
+export type ParameterMultipliers = Partial<Record<UncertainParameterId, number>>;
+
+export type Distribution =
+  | { type: "lognormal"; gsd: number } // geometric standard deviation around a median of 1
+  | { type: "normal"; sd: number }
+  | { type: "triangular"; min: number; mode: number; max: number }
+  | { type: "uniform"; min: number; max: number };
+
+// Any headline impact or midpoint category
+export type ImpactKey = keyof ImpactTotals | ImpactCategoryId;
+
+export interface UncertaintySummary {
+  median: number;
+  mean: number;
+  p5: number;
+  p95: number;
+  histogram: { from: number; to: number; count: number }[];
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  seed: number;
+  pedigreeWidened: boolean; // distributions widened by the factors' pedigree scores
+  impacts: Record<ImpactKey, UncertaintySummary>;
+}
+
+export type SensitivityParameterId =
+  | "recycledContent"
+  | "postConsumerShare"
+  | "collectionRate"
+  | "transportDistance"
+  | UncertainParameterId;
+
+export type SensitivityMethod = "oat" | "morris" | "sobol";
+
+export interface SensitivityEntry {
+  parameter: SensitivityParameterId;
+  label: string;
+  importance: number; // ranking measure: output swing (OAT), μ* (Morris) or total-order index (Sobol)
+  low?: { value: number; output: number }; // OAT only
+  high?: { value: number; output: number };
+  sigma?: number; // Morris: spread of elementary effects, a sign of interactions or non-linearity
+  firstOrder?: number; // Sobol: share of output variance from this parameter alone
+  importanceInterval?: [number, number]; // Sobol: 95% bootstrap confidence intervals of the indices
+  firstOrderInterval?: [number, number];
+}
+
+export interface SensitivityResult {
+  method: SensitivityMethod;
+  metric: ImpactKey;
+  baseline: number; // metric at the unperturbed inputs
+  evaluations: number;
+  entries: SensitivityEntry[]; // most influential first
+}
+
+export type ContributionCategory = "production" | "transport" | "endOfLife";
+
+export interface ImpactContribution {
+  stage: string;
+  category: ContributionCategory;
+  impacts: ImpactTotals;
+}
+
+export interface FeedstockShares {
+  primary: number; // 0–1
+  preConsumer: number; // 0–1
+  postConsumer: number; // 0–1
+}
+
+export interface MCIResult {
+  mci: number; // 0–1
+  linearFlowIndex: number; // 0–1
+  utility: number; // X = (L / Lav)·(U / Uav)
+  utilityFactor: number; // F(X) = 0.9 / X
+  virginFeedstock: number; // kg
+  unrecoverableWaste: number; // kg
+}
+
+export interface CircularityMetrics {
+  recycledContent: number; // %
+  preConsumerContent: number; // %
+  postConsumerContent: number; // %
+  materialQuality: number; // % of primary-grade quality
+  recoveryRate: number; // %
+  linearFlowShare: number; // %
+  circularityIndex: number; // %, MCI × 100
+  mci: MCIResult;
+  materialLoops: number;
+}
+
+export interface CostResult {
+  materialCost: number; // $
+  costSavings: number; // $ vs. all-primary material
+}
+
+export interface StageResult {
+  id: string;
+  label: string;
+  impacts: ImpactTotals;
+}
+
+export interface EnergySupply {
+  label: string;
+  intensity: number; // g CO₂-eq/kWh
+  co2Factor: number; // relative to the reference grid the metal factors assume
+  renewableShare: number; // 0–1
+  shares: { source: EnergySourceId; label: string; share: number; intensity: number }[]; // normalised to 0–1
+  gridRegion?: string;
+}
+
+export interface AllocationDeclaration {
+  method: AllocationMethod;
+  label: string;
+  parameters: AllocationParameters;
+}
+
+export interface LCAResult {
+  inputs: LCAInputs;
+  inventory: InventoryFlow[];
+  lci: LCISolution; // scaling vector and elementary flows of the solved product system
+  impacts: ImpactTotals;
+  categories: Record<ImpactCategoryId, number>; // midpoint scores for the whole quantity
+  dataQuality: DataQuality;
+  factorDatabase: FactorDatabaseRelease; // the release every factor was read from
+  contributions: ImpactContribution[];
+  stages: StageResult[]; // production split by unit process
+  energySupply: EnergySupply;
+  allocation: AllocationDeclaration;
+  circularity: CircularityMetrics;
+  cost: CostResult;
+}
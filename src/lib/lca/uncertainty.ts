@@ -0,0 +1,212 @@
+import { calculateLCA } from "./engine";
+import { getParameterPedigrees, getPedigreeVariance } from "./pedigree";
+import type {
+  Distribution,
+  ImpactKey,
+  LCAInputs,
+  LCAResult,
+  MonteCarloResult,
+  ParameterMultipliers,
+  UncertainParameterId,
+  UncertaintySummary,
+} from "./types";
+
+interface UncertainParameter {
+  label: string;
+  distribution: Distribution; // of the multiplier applied to the deterministic value
+}
+
+// Spreads follow typical ecoinvent basic uncertainties for the kind of data behind each factor
+export const uncertainParameters: Record<UncertainParameterId, UncertainParameter> = {
+  primaryBurden: { label: "Primary production burden", distribution: { type: "lognormal", gsd: 1.15 } },
+  secondaryBurden: { label: "Remelting burden", distribution: { type: "lognormal", gsd: 1.3 } },
+  gridIntensity: { label: "Electricity carbon intensity", distribution: { type: "normal", sd: 0.1 } },
+  transportIntensity: {
+    label: "Transport emission factors",
+    distribution: { type: "triangular", min: 0.8, mode: 1, max: 1.3 },
+  },
+  processEmissions: { label: "Mine and smelter emissions", distribution: { type: "lognormal", gsd: 1.5 } },
+};
+
+export const uncertainParameterIds = Object.keys(uncertainParameters) as UncertainParameterId[];
+
+const HISTOGRAM_BINS = 20;
+
+/** Small seedable PRNG (mulberry32) so a run can be reproduced from its seed. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box–Muller transform
+const standardNormal = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+export const sampleDistribution = (distribution: Distribution, random: () => number): number => {
+  switch (distribution.type) {
+    case "lognormal":
+      return Math.exp(Math.log(distribution.gsd) * standardNormal(random));
+    case "normal":
+      // Negative factors are not physical
+      return Math.max(0, 1 + distribution.sd * standardNormal(random));
+    case "triangular": {
+      const { min, mode, max } = distribution;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case "uniform":
+      return distribution.min + random() * (distribution.max - distribution.min);
+  }
+};
+
+/** Plausible range of a multiplier: its 95% interval, or the bounds of a bounded distribution. */
+export const getDistributionRange = (distribution: Distribution): [number, number] => {
+  switch (distribution.type) {
+    case "lognormal":
+      return [1 / distribution.gsd ** 2, distribution.gsd ** 2];
+    case "normal":
+      return [Math.max(0, 1 - 2 * distribution.sd), 1 + 2 * distribution.sd];
+    case "triangular":
+    case "uniform":
+      return [distribution.min, distribution.max];
+  }
+};
+
+/**
+ * Adds pedigree variance (ln-scale) to a distribution. The lognormal combines
+ * variances exactly; the others are stretched about their centre by the same
+ * ratio of standard deviations.
+ */
+export const widenDistribution = (distribution: Distribution, variance: number): Distribution => {
+  if (variance <= 0) return distribution;
+  if (distribution.type === "lognormal") {
+    return { ...distribution, gsd: Math.exp(Math.sqrt(Math.log(distribution.gsd) ** 2 + variance)) };
+  }
+  if (distribution.type === "normal") {
+    return { ...distribution, sd: Math.sqrt(distribution.sd ** 2 + variance) };
+  }
+  // A bounded distribution's range is roughly four standard deviations wide
+  const sd = (distribution.max - distribution.min) / 4;
+  const stretch = Math.sqrt(sd ** 2 + variance) / sd;
+  const centre = distribution.type === "triangular" ? distribution.mode : (distribution.min + distribution.max) / 2;
+  return {
+    ...distribution,
+    min: Math.max(0, centre - (centre - distribution.min) * stretch),
+    max: centre + (distribution.max - centre) * stretch,
+  };
+};
+
+export const sampleMultipliers = (
+  random: () => number,
+  distributions: Record<UncertainParameterId, Distribution> = getDistributions(),
+): ParameterMultipliers =>
+  Object.fromEntries(uncertainParameterIds.map((id) => [id, sampleDistribution(distributions[id], random)]));
+
+/** Each parameter's distribution, optionally widened by the scenario's pedigree scores. */
+export const getDistributions = (inputs?: LCAInputs): Record<UncertainParameterId, Distribution> => {
+  const pedigrees = inputs && getParameterPedigrees(inputs);
+  return Object.fromEntries(
+    uncertainParameterIds.map((id) => [
+      id,
+      pedigrees
+        ? widenDistribution(uncertainParameters[id].distribution, getPedigreeVariance(pedigrees[id]))
+        : uncertainParameters[id].distribution,
+    ]),
+  ) as Record<UncertainParameterId, Distribution>;
+};
+
+/** Every headline impact and midpoint category of a result, keyed for summaries. */
+export const getImpactValues = (result: LCAResult): Record<ImpactKey, number> => ({
+  ...result.impacts,
+  ...result.categories,
+});
+
+/** The p-quantile of ascending values, interpolating between neighbours. */
+export const percentile = (sorted: number[], p: number) => {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const summarizeSamples = (samples: number[]): UncertaintySummary => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const min = sorted[0];
+  const width = (sorted[sorted.length - 1] - min) / HISTOGRAM_BINS;
+  const histogram = Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({
+    from: min + bin * width,
+    to: min + (bin + 1) * width,
+    count: 0,
+  }));
+  sorted.forEach((value) => {
+    histogram[width > 0 ? Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width)) : 0].count += 1;
+  });
+
+  return {
+    median: percentile(sorted, 0.5),
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p5: percentile(sorted, 0.05),
+    p95: percentile(sorted, 0.95),
+    histogram,
+  };
+};
+
+/**
+ * Propagates the parameter distributions through the engine by plain Monte Carlo
+ * sampling, yielding the iterations completed after every batch so a caller can
+ * report progress, hand control back between batches or stop early.
+ */
+export function* sampleMonteCarlo(
+  inputs: LCAInputs,
+  iterations: number,
+  seed: number,
+  usePedigree = false,
+  batchSize = 100,
+): Generator<number, MonteCarloResult, void> {
+  const random = createRandom(seed);
+  const distributions = getDistributions(usePedigree ? inputs : undefined);
+  const samples = {} as Record<ImpactKey, number[]>;
+
+  for (let i = 0; i < iterations; i++) {
+    const values = getImpactValues(calculateLCA(inputs, sampleMultipliers(random, distributions)));
+    (Object.keys(values) as ImpactKey[]).forEach((key) => {
+      (samples[key] ??= []).push(values[key]);
+    });
+    if ((i + 1) % batchSize === 0) yield i + 1;
+  }
+
+  return {
+    iterations,
+    seed,
+    pedigreeWidened: usePedigree,
+    impacts: Object.fromEntries(
+      (Object.keys(samples) as ImpactKey[]).map((key) => [key, summarizeSamples(samples[key])]),
+    ) as Record<ImpactKey, UncertaintySummary>,
+  };
+}
+
+/** Runs sampleMonteCarlo to the end in one go. Synchronous; the UI runs it inside a Web Worker. */
+export const runMonteCarlo = (
+  inputs: LCAInputs,
+  iterations: number,
+  seed: number,
+  onProgress?: (completed: number) => void,
+  usePedigree = false,
+): MonteCarloResult => {
+  const run = sampleMonteCarlo(inputs, iterations, seed, usePedigree);
+  let step = run.next();
+  while (!step.done) {
+    onProgress?.(step.value as number);
+    step = run.next();
+  }
+  return step.value as MonteCarloResult;
+};
@@ -0,0 +1,97 @@
+import { JSDOM } from "jsdom";
+import { beforeAll, describe, expect, it } from "vitest";
+import { parseCsv, parseXlsx } from "./spreadsheet";
+
+// Node has the streams the zip reader inflates with but no XML parser; jsdom's stands in for the browser's
+beforeAll(() => {
+  globalThis.DOMParser = new JSDOM().window.DOMParser;
+});
+
+const encoder = new TextEncoder();
+
+const deflateRaw = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer());
+
+// A zip archive as Excel writes it, with the CRCs left at zero since the reader does not check them
+const zip = async (files: Record<string, string>, deflate: boolean) => {
+  const local: number[] = [];
+  const central: number[] = [];
+  const push = (target: number[], size: 2 | 4, value: number) => {
+    for (let i = 0; i < size; i++) target.push((value >>> (8 * i)) & 0xff);
+  };
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = deflate ? await deflateRaw(raw) : raw;
+    const offset = local.length;
+    const method = deflate ? 8 : 0;
+    push(local, 4, 0x04034b50);
+    [20, 0, method, 0, 0].forEach((value) => push(local, 2, value));
+    [0, data.length, raw.length].forEach((value) => push(local, 4, value));
+    [nameBytes.length, 0].forEach((value) => push(local, 2, value));
+    local.push(...nameBytes, ...data);
+
+    push(central, 4, 0x02014b50);
+    [20, 20, 0, method, 0, 0].forEach((value) => push(central, 2, value));
+    [0, data.length, raw.length].forEach((value) => push(central, 4, value));
+    [nameBytes.length, 0, 0, 0, 0].forEach((value) => push(central, 2, value));
+    [0, offset].forEach((value) => push(central, 4, value));
+    central.push(...nameBytes);
+  }
+  const end: number[] = [];
+  push(end, 4, 0x06054b50);
+  [0, 0, Object.keys(files).length, Object.keys(files).length].forEach((value) => push(end, 2, value));
+  [central.length, local.length].forEach((value) => push(end, 4, value));
+  push(end, 2, 0);
+  return new Uint8Array([...local, ...central, ...end]).buffer;
+};
+
+const workbook = {
+  "xl/workbook.xml":
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Factors" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  "xl/_rels/workbook.xml.rels":
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="worksheet" Target="worksheets/factors.xml"/></Relationships>',
+  "xl/sharedStrings.xml":
+    '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><si><t>id</t></si><si><t>value</t></si><si><r><t>alumin</t></r><r><t>um.primary.co2</t></r></si></sst>',
+  "xl/worksheets/factors.xml":
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+    '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>ok</t></is></c></row>' +
+    '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3"><v>16.5</v></c><c r="C3" t="b"><v>1</v></c></row>' +
+    '<row r="4"><c r="C4"><v>7</v></c></row>' +
+    "</sheetData></worksheet>",
+};
+
+describe("parseCsv", () => {
+  it("reads quoted fields with delimiters, quotes and line breaks", () => {
+    const table = parseCsv('id,label\r\na,"Say ""hi"", then\nwait"\r\nb,plain\r\n');
+    expect(table.headers).toEqual(["id", "label"]);
+    expect(table.rows).toEqual([
+      { number: 2, cells: ["a", 'Say "hi", then\nwait'] },
+      { number: 4, cells: ["b", "plain"] },
+    ]);
+  });
+
+  it("picks the semicolon delimiter of decimal-comma locales and skips blank rows", () => {
+    const table = parseCsv("\uFEFFid;value\n\ngrid.DE;0,38\n");
+    expect(table.headers).toEqual(["id", "value"]);
+    expect(table.rows).toEqual([{ number: 3, cells: ["grid.DE", "0,38"] }]);
+  });
+});
+
+describe("parseXlsx", () => {
+  it.each([
+    ["stored", false],
+    ["deflated", true],
+  ])("reads the first worksheet of a %s workbook", async (_, deflate) => {
+    const table = await parseXlsx(await zip(workbook, deflate));
+    expect(table.headers).toEqual(["id", "value", "ok"]);
+    expect(table.rows).toEqual([
+      { number: 3, cells: ["aluminum.primary.co2", "16.5", "TRUE"] },
+      { number: 4, cells: ["", "", "7"] },
+    ]);
+  });
+
+  it("rejects a file that is not a zip archive", async () => {
+    await expect(parseXlsx(encoder.encode("id,value\n").buffer)).rejects.toThrow(/not a valid .xlsx/);
+  });
+});
@@ -0,0 +1,187 @@
+// Minimal CSV and XLSX readers for importing tabular data. Only the first
+// worksheet of a workbook is read, and every cell comes back as its text.
+
+export interface SpreadsheetTable {
+  headers: string[];
+  rows: { number: number; cells: string[] }[]; // number is the 1-based row in the file
+}
+
+const toTable = (rows: { number: number; cells: string[] }[]): SpreadsheetTable => {
+  const filled = rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ""));
+  const [header, ...body] = filled;
+  return {
+    headers: header ? header.cells.map((cell) => cell.trim()) : [],
+    rows: body,
+  };
+};
+
+/**
+ * RFC 4180 CSV with quoted fields. The delimiter is whichever of comma, semicolon
+ * or tab appears most in the first line, since spreadsheets saved in locales with
+ * decimal commas write semicolons.
+ */
+export const parseCsv = (text: string): SpreadsheetTable => {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  );
+
+  const rows: { number: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    rows.push({ number: rowStart, cells });
+    cells = [];
+    cell = "";
+    rowStart = line;
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      line++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRow();
+
+  return toTable(rows);
+};
+
+// Reads the files of a zip archive, inflating deflated entries with the platform's
+// DecompressionStream
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end of central directory record sits in the last 64 KiB (comment included)
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("The file is not a valid .xlsx workbook");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let entry = 0; entry < count; entry++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("The workbook's zip directory is damaged");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+      files.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+    }
+  }
+  return files;
+};
+
+// Workbooks written by different tools prefix the spreadsheetml namespace differently
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS("*", name));
+
+const columnIndex = (reference: string) =>
+  [...reference.replace(/\d+$/, "")].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SpreadsheetTable> => {
+  const files = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const parser = new DOMParser();
+  const xml = (path: string) => {
+    const file = files.get(path);
+    return file ? parser.parseFromString(decoder.decode(file), "application/xml") : undefined;
+  };
+
+  // The first sheet in workbook order, resolved through the workbook relationships
+  const workbook = xml("xl/workbook.xml");
+  const relationships = xml("xl/_rels/workbook.xml.rels");
+  const firstSheet = workbook && elements(workbook, "sheet")[0];
+  const relationshipId =
+    firstSheet?.getAttributeNS("http://schemas.openxmlformats.org/officeDocument/2006/relationships", "id") ??
+    firstSheet?.getAttribute("r:id");
+  const target = relationships
+    ? elements(relationships, "Relationship")
+        .find((relationship) => relationship.getAttribute("Id") === relationshipId)
+        ?.getAttribute("Target")
+    : undefined;
+  const sheetPath = target ? (target.startsWith("/") ? target.slice(1) : `xl/${target}`) : "xl/worksheets/sheet1.xml";
+  const sheet = xml(sheetPath);
+  if (!sheet) throw new Error("The workbook has no worksheet");
+
+  const sharedStringsXml = xml("xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsXml
+    ? elements(sharedStringsXml, "si").map((item) => elements(item, "t").map((text) => text.textContent ?? "").join(""))
+    : [];
+
+  const rows = elements(sheet, "row").map((row, index) => {
+    const cells: string[] = [];
+    elements(row, "c").forEach((cell, position) => {
+      const reference = cell.getAttribute("r");
+      const column = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute("t");
+      const value = elements(cell, "v")[0]?.textContent ?? "";
+      cells[column] =
+        type === "s"
+          ? sharedStrings[Number(value)] ?? ""
+          : type === "inlineStr"
+            ? elements(cell, "t").map((text) => text.textContent ?? "").join("")
+            : type === "b"
+              ? (value === "1" ? "TRUE" : "FALSE")
+              : value;
+    });
+    return {
+      number: Number(row.getAttribute("r")) || index + 1,
+      cells: Array.from(cells, (cell) => cell ?? ""),
+    };
+  });
+
+  return toTable(rows);
+};
+
+/** Reads a .csv or .xlsx file chosen by the user. */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetTable> => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xlsx")) return parseXlsx(await file.arrayBuffer());
+  if (name.endsWith(".csv") || name.endsWith(".txt")) return parseCsv(await file.text());
+  throw new Error("Choose a .csv or .xlsx file");
+};
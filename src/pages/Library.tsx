@@ -0,0 +1,7 @@
+import { FactorLibraryManager } from "@/components/FactorLibraryManager";
+
+const Library = () => {
+  return <FactorLibraryManager />;
+};
+
+export default Library;
@@ -0,0 +1,34 @@
+import type { MonteCarloRunRequest, SensitivityRunRequest } from "@/lib/api-contract";
+import { sampleMorris, sampleOneAtATime, sampleSobol, type SensitivityRun, type SensitivityRunProgress } from "@/lib/lca/sensitivity";
+import { sampleMonteCarlo } from "@/lib/lca/uncertainty";
+import type { MonteCarloResult, SensitivityMethod, SensitivityResult } from "@/lib/lca/types";
+import { loadLibrary, type Task } from "./tasks";
+
+/** A Monte Carlo run, one batch of iterations per step. */
+export function* runMonteCarloTask({ inputs, iterations, seed, usePedigree, library }: MonteCarloRunRequest): Task<MonteCarloResult> {
+  const run = sampleMonteCarlo(inputs, iterations, seed, usePedigree);
+  for (;;) {
+    loadLibrary(library);
+    const step = run.next();
+    if (step.done) return step.value;
+    yield (step.value as number) / iterations;
+  }
+}
+
+const analyses: Record<SensitivityMethod, (request: SensitivityRunRequest) => SensitivityRun> = {
+  oat: ({ inputs, metric, spread }) => sampleOneAtATime(inputs, metric, spread),
+  morris: ({ inputs, metric }) => sampleMorris(inputs, metric),
+  sobol: ({ inputs, metric }) => sampleSobol(inputs, metric),
+};
+
+/** A sensitivity analysis, a few dozen engine runs per step. */
+export function* runSensitivityTask(request: SensitivityRunRequest): Task<SensitivityResult> {
+  const run = analyses[request.method](request);
+  for (;;) {
+    loadLibrary(request.library);
+    const step = run.next();
+    if (step.done) return step.value;
+    const { completed, total } = step.value as SensitivityRunProgress;
+    yield completed / total;
+  }
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { calculateLCA } from "@/lib/lca/engine";
+import { factorDatabases } from "@/lib/lca/factor-database";
+import { setFactorLibrary } from "@/lib/lca/factor-library";
+import { lcaResultSchema } from "@/lib/lca/schemas";
+import { testInputs as inputs } from "@/lib/lca/test-fixtures";
+import type { LCAResult } from "@/lib/lca/types";
+import { handleApiRequest } from "./api";
+
+const runLCA = (body: unknown) => handleApiRequest({ method: "POST", path: "/api/run_lca", body });
+
+afterEach(() => setFactorLibrary({ factors: [], audit: [] }));
+
+describe("POST /api/run_lca", () => {
+  it("answers with the engine's result for the inputs", () => {
+    const response = runLCA({ inputs });
+    expect(response.status).toBe(200);
+    expect(lcaResultSchema.safeParse(response.body).success).toBe(true);
+    expect(response.body).toEqual(calculateLCA(inputs));
+  });
+
+  it("calculates with the factor library sent alongside the inputs", () => {
+    const bundled = factorDatabases[0].factors.find(({ id }) => id === "aluminum.primary.co2");
+    const library = { factors: [{ ...bundled, value: bundled.value * 2 }], audit: [] };
+    const withLibrary = runLCA({ inputs, library }).body as LCAResult;
+    const without = runLCA({ inputs }).body as LCAResult;
+    expect(withLibrary.impacts.co2).toBeGreaterThan(without.impacts.co2);
+  });
+
+  it("refuses invalid inputs with a 400 naming each field at fault", () => {
+    const response = runLCA({ inputs: { ...inputs, quantity: 0 } });
+    expect(response).toMatchObject({
+      status: 400,
+      body: { error: "The request is invalid", issues: [{ path: "inputs.quantity", message: "Quantity must be greater than 0" }] },
+    });
+  });
+
+  it("answers an engine error with a 500 and its message", () => {
+    expect(runLCA({ inputs: { ...inputs, factorDatabase: "1999.1" } })).toEqual({
+      status: 500,
+      body: { error: 'Unknown factor database version "1999.1"' },
+    });
+  });
+});
+
+describe("handleApiRequest", () => {
+  it("answers unknown routes with a 404 and other methods with a 405", () => {
+    expect(handleApiRequest({ method: "POST", path: "/api/run", body: {} }).status).toBe(404);
+    expect(handleApiRequest({ method: "GET", path: "/api/run_lca", body: undefined }).status).toBe(405);
+  });
+});
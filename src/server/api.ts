@@ -0,0 +1,100 @@
+import type { z } from "zod";
+import {
+  jobRequestSchema,
+  reportRequestSchema,
+  runLCARequestSchema,
+  toApiIssues,
+  type ApiError,
+  type JobRequest,
+  type ReportRequest,
+  type RunLCARequest,
+  type RunLCAResponse,
+} from "@/lib/api-contract";
+import { calculateLCA } from "@/lib/lca/engine";
+import { setFactorLibrary } from "@/lib/lca/factor-library";
+import { cancelJob, getJob, submitJob } from "./jobs";
+import { outlineReport } from "./report";
+
+// Runs in Node behind the dev server's /api middleware; nothing here may touch the DOM
+
+export interface ApiRequest {
+  method: string;
+  path: string; // without the query string
+  body: unknown; // parsed JSON, undefined when the request had none
+}
+
+export interface ApiResponse {
+  status: number;
+  body: unknown;
+}
+
+const fail = (status: number, error: string, issues?: ApiError["issues"]): ApiResponse => ({
+  status,
+  body: { error, issues } satisfies ApiError,
+});
+
+type Handler = (body: unknown, params: Record<string, string>) => ApiResponse;
+
+// Every handler sees its payload only after it has passed the shared schema
+const validated =
+  <T>(schema: z.ZodTypeAny, handler: (payload: T) => ApiResponse): Handler =>
+  (body) => {
+    const parsed = schema.safeParse(body);
+    return parsed.success ? handler(parsed.data as T) : fail(400, "The request is invalid", toApiIssues(parsed.error));
+  };
+
+const runLCA = validated<RunLCARequest>(runLCARequestSchema, ({ inputs, library }) => {
+  // The engine reads the library as module state; a run is synchronous, so requests cannot interleave
+  setFactorLibrary(library ?? { factors: [], audit: [] });
+  const result: RunLCAResponse = calculateLCA(inputs);
+  return { status: 200, body: result };
+});
+
+const generateReport = validated<ReportRequest>(reportRequestSchema, (request) => ({
+  status: 200,
+  body: outlineReport(request),
+}));
+
+const createJob = validated<JobRequest>(jobRequestSchema, (request) => ({ status: 202, body: submitJob(request) }));
+
+const jobResponse = (id: string, job = getJob(id)): ApiResponse =>
+  job ? { status: 200, body: job } : fail(404, `No job ${id}; it may have been cancelled or expired`);
+
+// ":name" segments match any single path segment and reach the handler as params
+const routes: Record<string, Partial<Record<string, Handler>>> = {
+  "/api/run_lca": { POST: runLCA },
+  "/api/generate_report": { POST: generateReport },
+  "/api/jobs": { POST: createJob },
+  "/api/jobs/:id": {
+    GET: (_, { id }) => jobResponse(id),
+    DELETE: (_, { id }) => jobResponse(id, cancelJob(id)),
+  },
+};
+
+const matchRoute = (path: string) => {
+  const segments = path.split("/");
+  for (const [pattern, route] of Object.entries(routes)) {
+    const parts = pattern.split("/");
+    if (parts.length !== segments.length) continue;
+    const params: Record<string, string> = {};
+    const matches = parts.every((part, index) => {
+      if (part.startsWith(":")) params[part.slice(1)] = decodeURIComponent(segments[index]);
+      return part.startsWith(":") ? segments[index] !== "" : part === segments[index];
+    });
+    if (matches) return { route, params };
+  }
+  return undefined;
+};
+
+/** Dispatches one API request; engine errors come back as a 500 with the message. */
+export const handleApiRequest = ({ method, path, body }: ApiRequest): ApiResponse => {
+  const match = matchRoute(path);
+  if (!match) return fail(404, `No API route ${path}`);
+  const handler = match.route[method];
+  if (!handler) return fail(405, `${path} does not accept ${method}`);
+  try {
+    return handler(body, match.params);
+  } catch (error) {
+    return fail(500, error instanceof Error ? error.message : String(error));
+  }
+};
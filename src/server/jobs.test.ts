@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { JobRequest } from "@/lib/api-contract";
+import { jobSchema } from "@/lib/api-contract";
+import { testInputs as inputs } from "@/lib/lca/test-fixtures";
+import type { LCAInputs } from "@/lib/lca/types";
+import { cancelJob, getJob, submitJob } from "./jobs";
+
+// Three batches of 100 iterations, so three steps before the result
+const monteCarlo = (overrides: Partial<LCAInputs> = {}): JobRequest => ({
+  kind: "monteCarlo",
+  request: { inputs: { ...inputs, ...overrides }, iterations: 300, seed: 1, usePedigree: false },
+});
+
+// The queue runs one step per timer, so the tests step it by hand
+beforeEach(() => vi.useFakeTimers());
+afterEach(() => {
+  vi.runAllTimers();
+  vi.useRealTimers();
+});
+
+describe("submitJob", () => {
+  it("runs jobs one at a time in the order they were submitted", () => {
+    const first = submitJob(monteCarlo());
+    const second = submitJob(monteCarlo({ recycledContent: 80 }));
+    expect(getJob(first.id).state).toBe("running");
+    expect(getJob(second.id).state).toBe("queued");
+
+    vi.runAllTimers();
+    expect(getJob(first.id).state).toBe("done");
+    expect(getJob(second.id).state).toBe("done");
+    expect(getJob(second.id).startedAt >= getJob(first.id).finishedAt).toBe(true);
+  });
+
+  it("reports the progress of each step and keeps the result for polling", () => {
+    const { id } = submitJob(monteCarlo());
+    const progress: number[] = [];
+    while (getJob(id).state === "running") {
+      vi.advanceTimersToNextTimer();
+      progress.push(getJob(id).progress);
+    }
+    expect(progress).toEqual([33, 67, 100, 100]);
+    const job = getJob(id);
+    expect(job.state).toBe("done");
+    expect(jobSchema.safeParse(job).success).toBe(true);
+    expect(job.kind === "monteCarlo" && job.result.iterations).toBe(300);
+  });
+
+  it("fails a job whose task throws, with the task's message, and moves on to the next", () => {
+    const failing = submitJob({
+      kind: "sensitivity",
+      request: { inputs: { ...inputs, factorDatabase: "1999.1" }, method: "oat", metric: "co2", spread: 0.1 },
+    });
+    const next = submitJob(monteCarlo());
+    vi.runAllTimers();
+    expect(getJob(failing.id)).toMatchObject({ state: "failed", error: 'Unknown factor database version "1999.1"' });
+    expect(getJob(failing.id).finishedAt).toBeDefined();
+    expect(getJob(next.id).state).toBe("done");
+  });
+});
+
+describe("cancelJob", () => {
+  it("never starts a job cancelled while queued, and keeps it pollable", () => {
+    const first = submitJob(monteCarlo());
+    const second = submitJob(monteCarlo());
+    expect(cancelJob(second.id).state).toBe("cancelled");
+
+    vi.runAllTimers();
+    expect(getJob(first.id).state).toBe("done");
+    expect(getJob(second.id)).toMatchObject({ state: "cancelled", progress: 0 });
+    expect(getJob(second.id).startedAt).toBeUndefined();
+  });
+
+  it("stops a running job at its next step and starts the next one", () => {
+    const running = submitJob(monteCarlo());
+    const next = submitJob(monteCarlo());
+    vi.advanceTimersToNextTimer();
+    const cancelled = cancelJob(running.id);
+    expect(cancelled).toMatchObject({ state: "cancelled", progress: 33 });
+    expect(cancelled.finishedAt).toBeDefined();
+
+    vi.runAllTimers();
+    expect(getJob(running.id)).toMatchObject({ state: "cancelled", progress: 33 });
+    expect(getJob(running.id).result).toBeUndefined();
+    expect(getJob(next.id).state).toBe("done");
+  });
+
+  it("leaves a finished job as it is", () => {
+    const { id } = submitJob(monteCarlo());
+    vi.runAllTimers();
+    expect(cancelJob(id).state).toBe("done");
+    expect(getJob(id).state).toBe("done");
+  });
+
+  it("knows nothing of an id it never issued", () => {
+    expect(cancelJob("job-unknown")).toBeUndefined();
+    expect(getJob("job-unknown")).toBeUndefined();
+  });
+});
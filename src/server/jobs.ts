@@ -0,0 +1,108 @@
+import type { Job, JobKind, JobRequest, JobRequests, JobResults, JobState } from "@/lib/api-contract";
+import { runMonteCarloTask, runSensitivityTask } from "./analyses";
+import { layOutReport } from "./report";
+import type { Task } from "./tasks";
+
+// Finished jobs are kept for polling until this many newer ones have finished
+const MAX_FINISHED_JOBS = 50;
+
+const tasks: { [K in JobKind]: (request: JobRequests[K]) => Task<JobResults[K]> } = {
+  report: layOutReport,
+  monteCarlo: runMonteCarloTask,
+  sensitivity: runSensitivityTask,
+};
+
+interface JobRecord {
+  job: Job;
+  request: JobRequest;
+  task?: Task<unknown>; // while running
+}
+
+const jobs = new Map<string, JobRecord>();
+const queue: string[] = [];
+let running: JobRecord | undefined;
+let jobCounter = 0;
+
+const now = () => new Date().toISOString();
+
+const isFinished = ({ state }: Job) => state === "done" || state === "failed" || state === "cancelled";
+
+const forgetOldJobs = () => {
+  const finished = [...jobs.values()].filter(({ job }) => isFinished(job));
+  finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(({ job }) => jobs.delete(job.id));
+};
+
+const finish = (record: JobRecord, outcome: { state: JobState; progress?: number; result?: unknown; error?: string }) => {
+  Object.assign(record.job, outcome, { finishedAt: now() });
+  record.task = undefined;
+  running = undefined;
+  forgetOldJobs();
+  startNextJob();
+};
+
+// One step per turn of the event loop, so polls are answered while a job runs
+const step = () => {
+  const record = running;
+  if (!record) return;
+  if (record.job.state === "cancelled") {
+    running = undefined;
+    startNextJob();
+    return;
+  }
+  try {
+    const next = record.task.next();
+    if (next.done) {
+      finish(record, { state: "done", progress: 100, result: next.value });
+      return;
+    }
+    record.job.progress = Math.round(Math.min(1, next.value as number) * 100);
+    setTimeout(step);
+  } catch (error) {
+    finish(record, { state: "failed", error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// Jobs run one at a time, in the order they were submitted
+const startNextJob = () => {
+  if (running) return;
+  const record = jobs.get(queue.shift() ?? "");
+  if (!record || record.job.state === "cancelled") {
+    if (queue.length) startNextJob(); // skip jobs cancelled or expired while queued
+    return;
+  }
+  running = record;
+  record.job.state = "running";
+  record.job.startedAt = now();
+  const create = tasks[record.request.kind] as (request: JobRequests[JobKind]) => Task<unknown>;
+  record.task = create(record.request.request);
+  setTimeout(step);
+};
+
+export const submitJob = (request: JobRequest): Job => {
+  jobCounter += 1;
+  const job = {
+    id: `job-${Date.now().toString(36)}-${jobCounter}`,
+    kind: request.kind,
+    state: "queued",
+    progress: 0,
+    createdAt: now(),
+  } as Job;
+  jobs.set(job.id, { job, request });
+  queue.push(job.id);
+  startNextJob();
+  return job;
+};
+
+export const getJob = (id: string): Job | undefined => jobs.get(id)?.job;
+
+/** Stops a queued or running job, which stays pollable as cancelled; a finished job is returned as it is. */
+export const cancelJob = (id: string): Job | undefined => {
+  const record = jobs.get(id);
+  if (!record || isFinished(record.job)) return record?.job;
+  // A queued job is skipped when its turn comes; a running task is dropped at its next step
+  record.task?.return(undefined);
+  record.task = undefined;
+  Object.assign(record.job, { state: "cancelled", finishedAt: now() });
+  forgetOldJobs();
+  return record.job;
+};
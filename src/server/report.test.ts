@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { ReportRequest } from "@/lib/api-contract";
+import { reportSchema } from "@/lib/api-contract";
+import { calculateLCA } from "@/lib/lca/engine";
+import { testInputs as inputs } from "@/lib/lca/test-fixtures";
+import { layOutReport, outlineReport } from "./report";
+
+const request = (count: number): ReportRequest => ({
+  format: "pdf",
+  includeCharts: true,
+  includeComparison: true,
+  scenarios: Array.from({ length: count }, (_, index) => ({
+    name: `Scenario ${index + 1}`,
+    type: "conventional",
+    result: calculateLCA({ ...inputs, recycledContent: 20 * index }),
+  })),
+});
+
+describe("layOutReport", () => {
+  it("reports rising progress through the uncertainty runs and the sections", () => {
+    const task = layOutReport(request(2));
+    const progress: number[] = [];
+    for (let step = task.next(); !step.done; step = task.next()) progress.push(step.value as number);
+    // Ten batches per scenario, then one step per section
+    expect(progress.length).toBeGreaterThan(20);
+    expect(progress.every((value, index) => index === 0 || value > progress[index - 1])).toBe(true);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it("brackets each scenario's CO₂ result with its uncertainty range", () => {
+    const report = outlineReport(request(2));
+    expect(reportSchema.safeParse(report).success).toBe(true);
+    expect(report.uncertainty.map(({ scenario }) => scenario)).toEqual(["Scenario 1", "Scenario 2"]);
+    report.uncertainty.forEach(({ p5, median, p95 }) => {
+      expect(p5).toBeLessThan(median);
+      expect(median).toBeLessThan(p95);
+    });
+    expect(report.sections.map(({ title }) => title)).toContain("Uncertainty Analysis");
+  });
+
+  it("leaves the comparison out of a single-scenario report", () => {
+    const report = outlineReport(request(1));
+    expect(report.sections.map(({ title }) => title)).not.toContain("Scenario Comparison");
+    expect(report.chartCount).toBe(4);
+  });
+});
@@ -0,0 +1,86 @@
+import type { Report, ReportRequest } from "@/lib/api-contract";
+import { sampleMonteCarlo } from "@/lib/lca/uncertainty";
+import { complete, loadLibrary, type Task } from "./tasks";
+
+// Monte Carlo iterations per scenario for the uncertainty section, with a fixed seed so
+// the same scenarios always report the same ranges
+const REPORT_ITERATIONS = 1000;
+const REPORT_SEED = 1;
+
+type ReportSection = Report["sections"][number];
+
+interface ReportContext {
+  count: number;
+  includeCharts: boolean;
+  compare: boolean;
+  localFactors: boolean;
+  projected: boolean;
+}
+
+const perScenarios = (count: number, scenariosPerPage: number) => Math.ceil(count / scenariosPerPage);
+
+// In report order; a section that does not apply lays out to nothing
+const sectionLayouts: ((context: ReportContext) => ReportSection | undefined)[] = [
+  ({ count }) => ({ title: "Executive Summary", pages: 1 + (count > 2 ? 1 : 0) }),
+  // Local factor changes and pathway assumptions have to be declared alongside the method
+  ({ localFactors, projected }) => ({ title: "Methodology & Scope", pages: 2 + (localFactors ? 1 : 0) + (projected ? 1 : 0) }),
+  ({ count }) => ({ title: "Input Parameters", pages: perScenarios(count, 2) }),
+  ({ count, includeCharts }) => ({ title: "Impact Assessment Results", pages: count * (includeCharts ? 2 : 1) }),
+  ({ compare, includeCharts }) => (compare ? { title: "Scenario Comparison", pages: 1 + (includeCharts ? 1 : 0) } : undefined),
+  ({ count }) => ({ title: "Circularity Analysis", pages: perScenarios(count, 2) }),
+  ({ count }) => ({ title: "Data Quality", pages: perScenarios(count, 3) }),
+  ({ count, includeCharts }) => ({ title: "Uncertainty Analysis", pages: perScenarios(count, includeCharts ? 2 : 4) }),
+  () => ({ title: "Recommendations", pages: 1 }),
+  ({ count }) => ({ title: "Appendices", pages: 1 + perScenarios(count, 2) }),
+];
+
+/**
+ * Samples each scenario's CO₂ uncertainty, a batch of iterations per step, then lays
+ * out the report one section per step: sections grow with the number of scenarios,
+ * and charts and the comparison are only included when asked for.
+ */
+export function* layOutReport({ format, includeCharts, includeComparison, scenarios, library }: ReportRequest): Task<Report> {
+  const steps = scenarios.length + sectionLayouts.length;
+
+  const uncertainty: Report["uncertainty"] = [];
+  for (const [index, { name, result }] of scenarios.entries()) {
+    const run = sampleMonteCarlo(result.inputs, REPORT_ITERATIONS, REPORT_SEED);
+    for (;;) {
+      loadLibrary(library);
+      const step = run.next();
+      if (step.done) {
+        const { p5, median, p95 } = step.value.impacts.co2;
+        uncertainty.push({ scenario: name, iterations: REPORT_ITERATIONS, p5, median, p95 });
+        break;
+      }
+      yield (index + (step.value as number) / REPORT_ITERATIONS) / steps;
+    }
+  }
+
+  const context: ReportContext = {
+    count: scenarios.length,
+    includeCharts,
+    compare: includeComparison && scenarios.length > 1,
+    localFactors: scenarios.some(({ result }) => result.factorDatabase.basedOn !== undefined),
+    projected: scenarios.some(({ result }) => result.inputs.targetYear !== undefined),
+  };
+
+  const sections: ReportSection[] = [];
+  for (const [index, layout] of sectionLayouts.entries()) {
+    const section = layout(context);
+    if (section) sections.push(section);
+    yield (scenarios.length + index + 1) / steps;
+  }
+
+  return {
+    format,
+    generatedAt: new Date().toISOString(),
+    sections,
+    pageCount: sections.reduce((total, { pages }) => total + pages, 0),
+    // Stage contributions, flows, midpoint categories and the uncertainty range per scenario, plus the comparison bars
+    chartCount: includeCharts ? context.count * 4 + (context.compare ? 2 : 0) : 0,
+    uncertainty,
+  };
+}
+
+export const outlineReport = (request: ReportRequest): Report => complete(layOutReport(request));
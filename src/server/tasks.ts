@@ -0,0 +1,19 @@
+import { setFactorLibrary } from "@/lib/lca/factor-library";
+import type { FactorLibrary } from "@/lib/lca/types";
+
+/**
+ * Long work is written as a generator that yields its progress (0–1) between
+ * steps. The job queue hands control back to the server at every yield, so it can
+ * answer polls and cancellations; a plain request runs the task straight through.
+ */
+export type Task<T> = Generator<number, T, void>;
+
+export const complete = <T>(task: Task<T>): T => {
+  for (;;) {
+    const step = task.next();
+    if (step.done) return step.value;
+  }
+};
+
+// Other requests may swap the engine's library between steps, so a task sets its own before each
+export const loadLibrary = (library?: FactorLibrary) => setFactorLibrary(library ?? { factors: [], audit: [] });
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { calculateLCA } from "@/lib/lca/engine";
+import { factorDatabases } from "@/lib/lca/factor-database";
+import { getFactorLibrary, setFactorLibrary } from "@/lib/lca/factor-library";
+import { getPathwayYears } from "@/lib/lca/pathways";
+import { testInputs as inputs } from "@/lib/lca/test-fixtures";
+import type { LCAResult } from "@/lib/lca/types";
+import type { LCAWorkerMessage, LCAWorkerRequest } from "./lca.worker";
+
+// The worker answers through the global scope, which stands in for the page here
+const scope = { postMessage: vi.fn(), onmessage: undefined as (event: { data: LCAWorkerRequest }) => void };
+
+const ask = (request: Omit<LCAWorkerRequest, "library"> & Partial<Pick<LCAWorkerRequest, "library">>) => {
+  scope.postMessage.mockClear();
+  scope.onmessage({ data: { library: { factors: [], audit: [] }, ...request } });
+  return scope.postMessage.mock.calls[0][0] as LCAWorkerMessage;
+};
+
+beforeAll(async () => {
+  vi.stubGlobal("self", scope);
+  await import("./lca.worker");
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+  setFactorLibrary({ factors: [], audit: [] });
+});
+
+describe("lca.worker", () => {
+  it("answers a result request with the engine's result and the request's id", () => {
+    expect(ask({ id: 1, kind: "result", inputs })).toEqual({ id: 1, type: "done", value: calculateLCA(inputs) });
+  });
+
+  it("answers a trajectory request with the CO₂ of every pathway year", () => {
+    const message = ask({ id: 2, kind: "trajectory", inputs });
+    expect(message.type === "done" && message.value).toHaveLength(getPathwayYears().length);
+  });
+
+  it("calculates with the library sent with each request", () => {
+    const bundled = factorDatabases[0].factors.find(({ id }) => id === "aluminum.primary.co2");
+    const library = { factors: [{ ...bundled, value: bundled.value * 2 }], audit: [] };
+    const withLibrary = ask({ id: 3, kind: "result", inputs, library });
+    expect(getFactorLibrary()).toBe(library);
+    const without = ask({ id: 4, kind: "result", inputs });
+    const co2 = (message: LCAWorkerMessage) => (message.type === "done" ? (message.value as LCAResult).impacts.co2 : NaN);
+    expect(co2(withLibrary)).toBeGreaterThan(co2(without));
+  });
+
+  it("answers an engine error with its message", () => {
+    expect(ask({ id: 5, kind: "result", inputs: { ...inputs, factorDatabase: "1999.1" } })).toEqual({
+      id: 5,
+      type: "error",
+      message: 'Unknown factor database version "1999.1"',
+    });
+  });
+});
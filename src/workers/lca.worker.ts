@@ -0,0 +1,42 @@
+import { calculateLCA } from "@/lib/lca/engine";
+import { setFactorLibrary } from "@/lib/lca/factor-library";
+import { getPathwayYears } from "@/lib/lca/pathways";
+import type { FactorLibrary, LCAInputs, LCAResult } from "@/lib/lca/types";
+
+// What each kind of calculation answers with
+export interface LCAWorkerResults {
+  result: LCAResult;
+  trajectory: number[]; // kg CO₂-eq in each of getPathwayYears()
+}
+
+export type LCAWorkerKind = keyof LCAWorkerResults;
+
+export interface LCAWorkerRequest {
+  id: number; // echoed back so answers can be matched to requests
+  kind: LCAWorkerKind;
+  inputs: LCAInputs;
+  library: FactorLibrary;
+}
+
+export type LCAWorkerMessage =
+  | { id: number; type: "done"; value: LCAWorkerResults[LCAWorkerKind] }
+  | { id: number; type: "error"; message: string };
+
+const calculations: { [K in LCAWorkerKind]: (inputs: LCAInputs) => LCAWorkerResults[K] } = {
+  result: calculateLCA,
+  // The scenario rerun for every pathway year
+  trajectory: (inputs) => getPathwayYears().map((year) => calculateLCA({ ...inputs, targetYear: year }).impacts.co2),
+};
+
+// The DOM lib types `self` as a window; in a dedicated worker it posts back to the page
+const worker = self as unknown as Worker;
+
+worker.onmessage = ({ data }: MessageEvent<LCAWorkerRequest>) => {
+  const post = (message: LCAWorkerMessage) => worker.postMessage(message);
+  try {
+    setFactorLibrary(data.library);
+    post({ id: data.id, type: "done", value: calculations[data.kind](data.inputs) });
+  } catch (error) {
+    post({ id: data.id, type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,32 @@
+import type { MonteCarloRunRequest } from "@/lib/api-contract";
+import { setFactorLibrary } from "@/lib/lca/factor-library";
+import { runMonteCarlo } from "@/lib/lca/uncertainty";
+import type { FactorLibrary, MonteCarloResult } from "@/lib/lca/types";
+
+// The service's run request; workers cannot read the page's storage, so the library always travels with it
+export type MonteCarloRequest = MonteCarloRunRequest & { library: FactorLibrary };
+
+export type MonteCarloMessage =
+  | { type: "progress"; completed: number }
+  | { type: "done"; result: MonteCarloResult }
+  | { type: "error"; message: string };
+
+// The DOM lib types `self` as a window; in a dedicated worker it posts back to the page
+const worker = self as unknown as Worker;
+
+worker.onmessage = ({ data }: MessageEvent<MonteCarloRequest>) => {
+  const post = (message: MonteCarloMessage) => worker.postMessage(message);
+  try {
+    setFactorLibrary(data.library);
+    const result = runMonteCarlo(
+      data.inputs,
+      data.iterations,
+      data.seed,
+      (completed) => post({ type: "progress", completed }),
+      data.usePedigree,
+    );
+    post({ type: "done", result });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};
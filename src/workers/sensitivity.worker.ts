@@ -0,0 +1,32 @@
+import type { SensitivityRunRequest } from "@/lib/api-contract";
+import { setFactorLibrary } from "@/lib/lca/factor-library";
+import { runMorris, runOneAtATime, runSobol, type SensitivityProgress } from "@/lib/lca/sensitivity";
+import type { FactorLibrary, SensitivityMethod, SensitivityResult } from "@/lib/lca/types";
+
+// The service's run request; workers cannot read the page's storage, so the library always travels with it
+export type SensitivityRequest = SensitivityRunRequest & { library: FactorLibrary };
+
+export type SensitivityMessage =
+  | { type: "progress"; completed: number; total: number }
+  | { type: "done"; result: SensitivityResult }
+  | { type: "error"; message: string };
+
+// The DOM lib types `self` as a window; in a dedicated worker it posts back to the page
+const worker = self as unknown as Worker;
+
+const analyses: Record<SensitivityMethod, (request: SensitivityRequest, onProgress: SensitivityProgress) => SensitivityResult> = {
+  oat: ({ inputs, metric, spread }, onProgress) => runOneAtATime(inputs, metric, spread, onProgress),
+  morris: ({ inputs, metric }, onProgress) => runMorris(inputs, metric, undefined, undefined, onProgress),
+  sobol: ({ inputs, metric }, onProgress) => runSobol(inputs, metric, undefined, undefined, onProgress),
+};
+
+worker.onmessage = ({ data }: MessageEvent<SensitivityRequest>) => {
+  const post = (message: SensitivityMessage) => worker.postMessage(message);
+  try {
+    setFactorLibrary(data.library);
+    const result = analyses[data.method](data, (completed, total) => post({ type: "progress", completed, total }));
+    post({ type: "done", result });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+};